@@ -1,52 +1,216 @@
 
-import React, { useState, useEffect } from 'react';
-import { ImageUploader } from './components/ImageUploader.tsx';
-import { geminiService } from './services/geminiService.ts';
-import { AppStatus, SavedBook, QuestPage } from './types.ts';
+import React, { useState, useEffect, useRef } from 'react';
+import { CastEditor } from './components/CastEditor.tsx';
+import { SceneSettingsPanel } from './components/SceneSettingsPanel.tsx';
+import { PageViewer } from './components/PageViewer.tsx';
+import { DifferenceViewer } from './components/DifferenceViewer.tsx';
+import { PdfExportDialog } from './components/PdfExportDialog.tsx';
+import { PageSlotList } from './components/PageSlotList.tsx';
+import { PageStrip } from './components/PageStrip.tsx';
+import { PagePromptDialog } from './components/PagePromptDialog.tsx';
+import { ChallengeSetupDialog } from './components/ChallengeSetupDialog.tsx';
+import { ChallengeOverlay } from './components/ChallengeOverlay.tsx';
+import { LibraryPanel } from './components/LibraryPanel.tsx';
+import { geminiService, Storyline } from './services/geminiService.ts';
+import { resultCache } from './services/resultCache.ts';
+import { bookStore, StorageUsage } from './services/bookStore.ts';
+import { runGenerationJob, PageJobSlot } from './services/generationJob.ts';
+import { StorageQuotaError } from './services/idb.ts';
+import { GenerationError, RecoveryAction, isRetryableError } from './services/errors.ts';
+import { createBookArchive, readBookArchive, asImportedCopy, ArchiveError, ARCHIVE_EXTENSION } from './services/bookArchive.ts';
+import { DEFAULT_SCENE_SETTINGS, describePageScene } from './services/promptBuilder.ts';
+import { HintTarget, HintLevel, MAX_HINT_LEVEL, HINT_LABELS, sameTarget, hintRegion, hintTemperature } from './services/hints.ts';
+import { pageProgress, pageCompletion, bookCompletion, formatPlayTime, pageKey } from './services/progress.ts';
+import { ChallengeRun, createChallenge, challengePages, challengeProgress, challengeHints, isPageCleared, scoreTurn, addToLeaderboard, boardEntries } from './services/challenge.ts';
+import { asDuplicate, newBookId, summarizePage } from './services/library.ts';
+import { downloadBlob, toFileName } from './utils/download.ts';
+import { Route, parseRoute, routePath } from './utils/routes.ts';
+import { AppStatus, BookSummary, SavedBook, QuestPage, BoundingBox, AnswerKey, Hero, SceneSettings, PageProgress, ChallengeScope, LeaderboardEntry } from './types.ts';
+import { isPointInBox, boxToStyle, NormalizedPoint } from './utils/geometry.ts';
 
-const STORAGE_KEY = 'crowd_quest_library';
+const describeStorageError = (err: unknown) =>
+  err instanceof StorageQuotaError
+    ? "Your Quest Vault is full! Delete some older adventures to make room."
+    : "Could not access your Quest Vault. Please try again.";
+
+// Guidance shown under a failed generation, keyed by what the error says the player can do about it.
+const RECOVERY_HINTS: Record<RecoveryAction, { hint: string; action?: string; icon: string }> = {
+  'retry': { hint: "This is usually a one-off hiccup.", action: "Try Again", icon: 'fa-redo' },
+  'wait': { hint: "Give it a minute before forging again.", action: "Try Again", icon: 'fa-hourglass-half' },
+  'change-photo': { hint: "Swap out any photo that isn't a clear, everyday shot of a hero.", action: "Edit Cast", icon: 'fa-camera' },
+  'change-scene': { hint: "Try a gentler or more family-friendly theme.", action: "Edit Theme", icon: 'fa-pen' },
+  'check-key': { hint: "The app needs a working Gemini API key before it can draw.", icon: 'fa-key' },
+  'check-connection': { hint: "Once you're back online, forge again.", action: "Try Again", icon: 'fa-wifi' },
+};
+
+interface ErrorNotice {
+  message: string;
+  recovery?: RecoveryAction;
+}
+
+const hintKey = (target: HintTarget) => `${target.kind}-${target.index}`;
+
+const toErrorNotice = (failure: Error | undefined): ErrorNotice =>
+  failure instanceof GenerationError
+    ? { message: failure.message, recovery: failure.recovery }
+    : { message: failure?.message || "Failed to generate. Please try again.", recovery: 'retry' };
+
+// Extra slack (in 0-1000 units) around answer boxes so small characters are still tappable on phones.
+const TAP_PADDING = 15;
+
+// How often time spent on the open page is added to its progress, so little is lost if the tab is closed.
+const PLAY_CLOCK_INTERVAL = 10000;
+// Progress of a Vault book is written back once play has paused for this long.
+const PROGRESS_SAVE_DELAY = 1000;
 
 const App: React.FC = () => {
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [cast, setCast] = useState<Hero[]>([]);
   const [scenery, setScenery] = useState('');
   const [pageCount, setPageCount] = useState(3);
+  const [sceneSettings, setSceneSettings] = useState<SceneSettings>(DEFAULT_SCENE_SETTINGS);
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
   const [pages, setPages] = useState<QuestPage[]>([]);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ErrorNotice | null>(null);
   const [currentPage, setCurrentPage] = useState(0);
   const [loadingStep, setLoadingStep] = useState(0);
-  const [pagesCompleted, setPagesCompleted] = useState(0);
-  const [library, setLibrary] = useState<SavedBook[]>([]);
+  const [pageSlots, setPageSlots] = useState<PageJobSlot<QuestPage>[]>([]);
+  // What the job is doing before the first page can be drawn (writing the story, designing heroes...).
+  const [preparationStep, setPreparationStep] = useState<string | null>(null);
+  const [storyMode, setStoryMode] = useState(false);
+  // A generated story title and synopsis; without them the book is titled after its scenery.
+  const [bookTitle, setBookTitle] = useState<string | null>(null);
+  const [synopsis, setSynopsis] = useState<string | null>(null);
+  const [library, setLibrary] = useState<BookSummary[]>([]);
   const [showLibrary, setShowLibrary] = useState(false);
-  const [foundItems, setFoundItems] = useState<Record<string, boolean>>({});
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
   const [isSharing, setIsSharing] = useState(false);
+  const [showPdfExport, setShowPdfExport] = useState(false);
   
   // Hint State
-  const [isLocating, setIsLocating] = useState(false);
-  const [hintBox, setHintBox] = useState<[number, number, number, number] | null>(null);
+  const [locatingHint, setLocatingHint] = useState<HintTarget | null>(null);
+  const [hint, setHint] = useState<{ target: HintTarget; level: HintLevel; box: BoundingBox } | null>(null);
+  // How far up the hint ladder each target on this page has got, keyed by hintKey.
+  const [hintLevels, setHintLevels] = useState<Record<string, HintLevel>>({});
+  // Pointer position for the warmer/colder hint.
+  const [hoverPoint, setHoverPoint] = useState<NormalizedPoint | null>(null);
+
+  const [activeBookId, setActiveBookId] = useState<string | null>(null);
+
+  // Tap-to-find State
+  const [missMarker, setMissMarker] = useState<(NormalizedPoint & { id: number }) | null>(null);
+  // Keyed by picture rather than position so reordering can't attach a key to the wrong page,
+  // and a page whose progress changes meanwhile still gets its key.
+  const answerKeyRequests = useRef(new Map<string, Promise<AnswerKey>>());
+  // The picture being played and when its time last started counting.
+  const playClock = useRef<{ pageKey: string; since: number } | null>(null);
+  const sceneryInputRef = useRef<HTMLTextAreaElement>(null);
+  const castSectionRef = useRef<HTMLElement>(null);
+
+  // Generation Job State
+  const jobController = useRef<AbortController | null>(null);
+  // `origins` maps each slot to the page it was first queued as, once edits have moved the slots around.
+  const jobInput = useRef<{ cast: Hero[]; scenery: string; settings: SceneSettings; beats?: Storyline['beats']; fresh: boolean; origins?: number[] } | null>(null);
+  // Hashes of what has been forged this session; forging the same thing again asks for a new variation.
+  const forgedInputs = useRef(new Set<string>());
+  const slotsRef = useRef<PageJobSlot<QuestPage>[]>([]);
+
+  // Challenge State
+  const [challenge, setChallenge] = useState<ChallengeRun | null>(null);
+  const [showChallengeSetup, setShowChallengeSetup] = useState(false);
+  const [isPreparingChallenge, setIsPreparingChallenge] = useState(false);
+  const [challengePlayers, setChallengePlayers] = useState<string[]>([]);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [latestEntry, setLatestEntry] = useState<LeaderboardEntry | undefined>(undefined);
+
+  // Page Editing State
+  const [isEditingPages, setIsEditingPages] = useState(false);
+  // `index` is null when a new page is being appended.
+  const [pageEdit, setPageEdit] = useState<{ index: number | null; prompt: string } | null>(null);
+  const [isDrawingPage, setIsDrawingPage] = useState(false);
+  const [pageEditError, setPageEditError] = useState<string | null>(null);
+  const pageEditController = useRef<AbortController | null>(null);
+  // The page a spot-the-difference copy is being made from.
+  const [differenceSource, setDifferenceSource] = useState<number | null>(null);
+  const differenceController = useRef<AbortController | null>(null);
+  // Latest pages, for async work that finishes after the render that started it.
+  const pagesRef = useRef(pages);
+  pagesRef.current = pages;
+
+  // Routing State
+  // The address bar only starts following the app once the route it was opened on has been restored.
+  const [isRouteReady, setIsRouteReady] = useState(false);
+  // Bumped on Back/Forward, so the address bar is corrected even when a route couldn't be followed.
+  const [historyMoves, setHistoryMoves] = useState(0);
+  const isHistoryMove = useRef(false);
+  const followRouteRef = useRef<(route: Route) => void>(() => {});
 
   const loadingMessages = [
     "Sketching characters...",
     "Drafting the scenery...",
     "Hiding you deep in the crowd...",
     "Adding themed easter eggs...",
+    "Drawing up the answer key...",
     "Finalizing the cartoon universe..."
   ];
 
   useEffect(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
+    const loadLibrary = async () => {
       try {
-        setLibrary(JSON.parse(saved));
+        await bookStore.migrateLegacyLibrary();
       } catch (e) {
-        console.error("Failed to parse library", e);
+        console.error("Failed to migrate library", e);
+        alert(describeStorageError(e));
       }
-    }
+      let books: BookSummary[] = [];
+      try {
+        books = await bookStore.listBooks();
+        setLibrary(books);
+      } catch (e) {
+        console.error("Failed to load library", e);
+      }
+      // A reload lands back on the book and page it was showing; the first correction replaces rather than adds.
+      followRoute(parseRoute(window.location.pathname), books);
+      isHistoryMove.current = true;
+      setIsRouteReady(true);
+    };
+    loadLibrary();
   }, []);
 
+  const route: Route = showLibrary
+    ? { view: 'vault' }
+    : status === AppStatus.SUCCESS && pages.length > 0
+      ? activeBookId ? { view: 'book', bookId: activeBookId, page: currentPage } : { view: 'create', page: currentPage }
+      : { view: 'create' };
+  const path = routePath(route);
+
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(library));
-  }, [library]);
+    if (!isRouteReady) return;
+    const moved = isHistoryMove.current;
+    isHistoryMove.current = false;
+    if (path === window.location.pathname) return;
+    // Saving a draft gives the same page a real address, so it doesn't add a step to history.
+    const saved = path.startsWith('/book/') && window.location.pathname.startsWith('/create/page/');
+    if (moved || saved) window.history.replaceState(null, '', path);
+    else window.history.pushState(null, '', path);
+  }, [path, isRouteReady, historyMoves]);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      isHistoryMove.current = true;
+      followRouteRef.current(parseRoute(window.location.pathname));
+      setHistoryMoves(n => n + 1);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Refreshed while the Vault is open, so the readout follows saves, duplicates and deletes.
+  useEffect(() => {
+    if (!showLibrary) return;
+    bookStore.storageUsage()
+      .then(setStorageUsage)
+      .catch(e => console.error("Failed to read storage usage", e));
+  }, [showLibrary, library]);
 
   useEffect(() => {
     let interval: any;
@@ -58,90 +222,681 @@ const App: React.FC = () => {
     return () => clearInterval(interval);
   }, [status]);
 
-  // Reset hints and found items when changing pages
+  // Hints are for the page they were asked on; found heroes and items live in each page's progress.
   useEffect(() => {
-    setHintBox(null);
+    clearHints();
+    setMissMarker(null);
   }, [currentPage]);
 
+  // Time only counts while a page is on screen and the tab is visible.
+  useEffect(() => {
+    const page = pages[currentPage];
+    if (status !== AppStatus.SUCCESS || !page) return;
+
+    const start = () => {
+      playClock.current = document.visibilityState === 'visible' ? { pageKey: pageKey(page), since: Date.now() } : null;
+    };
+    const handleVisibility = () => {
+      flushPlayTime();
+      start();
+    };
+    start();
+    const interval = setInterval(flushPlayTime, PLAY_CLOCK_INTERVAL);
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      flushPlayTime();
+      playClock.current = null;
+    };
+  }, [status, currentPage, pages[currentPage] && pageKey(pages[currentPage])]);
+
+  // A challenge turn ends as soon as everything it covers has been found.
+  useEffect(() => {
+    if (challenge?.phase !== 'playing') return;
+    const cleared = challengePages(challenge, pages.length)
+      .every(i => pages[i] && isPageCleared(pages[i], challengeProgress(challenge, pages[i], i, cast.length)));
+    if (cleared) finishChallengeTurn(challenge);
+  }, [challenge, pages]);
+
+  // Books in the Vault remember how far the player got, so they can pick up where they stopped.
+  useEffect(() => {
+    if (!activeBookId || status !== AppStatus.SUCCESS) return;
+    const timeout = setTimeout(() => {
+      if (!library.some(b => b.id === activeBookId)) return;
+      setLibrary(prev => prev.map(b => b.id === activeBookId ? { ...b, pages: pages.map(summarizePage), lastPage: currentPage } : b));
+      bookStore.saveProgress({ id: activeBookId, pages, lastPage: currentPage }).catch(e => console.error("Failed to save progress", e));
+    }, PROGRESS_SAVE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [pages, currentPage, activeBookId, status]);
+
+  useEffect(() => {
+    if (!missMarker) return;
+    const timeout = setTimeout(() => setMissMarker(null), 900);
+    return () => clearTimeout(timeout);
+  }, [missMarker]);
+
+  // Finished pages are shown in book order as they arrive, even while others are still generating or retrying.
+  useEffect(() => {
+    if (pageSlots.length === 0) return;
+    // Pages already on screen are kept as they are, so progress made while others generate isn't lost.
+    const shown = new Map(pages.map(page => [pageKey(page), page]));
+    const donePages = pageSlots.flatMap(slot => slot.status === 'done' && slot.result ? [shown.get(pageKey(slot.result)) ?? slot.result] : []);
+    const viewing = pages[currentPage];
+    setPages(donePages);
+    // Keep the reader on the same picture when a retried page is slotted in before it.
+    const viewingIndex = viewing ? donePages.indexOf(viewing) : -1;
+    if (viewingIndex >= 0 && viewingIndex !== currentPage) setCurrentPage(viewingIndex);
+  }, [pageSlots]);
+
+  // Abandon any running job when the app unmounts.
+  useEffect(() => () => {
+    jobController.current?.abort();
+    pageEditController.current?.abort();
+    differenceController.current?.abort();
+  }, []);
+
+  // Pages saved before answer keys existed are located once, then the key is kept with the book.
+  useEffect(() => {
+    if (status === AppStatus.SUCCESS && pages[currentPage] && !pages[currentPage].answerKey) {
+      ensureAnswerKey(currentPage).catch(e => console.error("Failed to locate page targets", e));
+    }
+  }, [status, pages, currentPage]);
+
+  const ensureAnswerKey = (pageIndex: number): Promise<AnswerKey> => {
+    const page = pages[pageIndex];
+    if (page.answerKey) return Promise.resolve(page.answerKey);
+
+    const existing = answerKeyRequests.current.get(pageKey(page));
+    if (existing) return existing;
+
+    const request = geminiService.buildAnswerKey(cast, page.imageUrl, page.questItems).then(answerKey => {
+      const withKey = (list: QuestPage[]) => list.map(p => pageKey(p) === pageKey(page) ? { ...p, answerKey } : p);
+      setPages(withKey);
+      const book = activeBook(withKey(pagesRef.current));
+      if (book) persistBook(book);
+      return answerKey;
+    }).catch(e => {
+      answerKeyRequests.current.delete(pageKey(page));
+      throw e;
+    });
+    answerKeyRequests.current.set(pageKey(page), request);
+    return request;
+  };
+
   const handleGenerate = async () => {
-    if (!selectedImage) {
-      setError("Please upload an image first!");
+    if (cast.length === 0) {
+      setError({ message: "Please add at least one hero photo!" });
+      return;
+    }
+    if (cast.some(hero => !hero.name.trim())) {
+      setError({ message: "Please give every hero a name!" });
       return;
     }
     if (!scenery.trim()) {
-      setError("Please describe a scenery!");
+      setError({ message: "Please describe a scenery!" });
       return;
     }
 
     setStatus(AppStatus.GENERATING);
+    setActiveBookId(null);
     setError(null);
     setPages([]);
-    setPagesCompleted(0);
     setCurrentPage(0);
-    setHintBox(null);
-    setFoundItems({});
+    clearHints();
+    setBookTitle(null);
+    setSynopsis(null);
+    setChallenge(null);
+    setLeaderboard([]);
+    answerKeyRequests.current.clear();
 
-    const generatedPages: QuestPage[] = [];
-    
-    try {
-      for (let i = 0; i < pageCount; i++) {
-        const variationPrompt = `${scenery} - scene variation #${i + 1}. Include specific themed characters like ${scenery.includes('space') ? 'aliens and robot dogs' : 'mythical creatures'}.`;
-        const result = await geminiService.generateWaldoImage(selectedImage, variationPrompt);
-        generatedPages.push(result);
-        setPagesCompleted(i + 1);
-        setPages([...generatedPages]);
-      }
+    // Character sheets are left out: they are made by the first forge, and the pages are drawn from them either way.
+    const forgeKey = await resultCache.keyOf({
+      heroes: cast.map(hero => [hero.name, hero.image, hero.outfit]),
+      scenery, sceneSettings, pageCount, storyMode,
+    });
+    const fresh = forgeKey !== null && forgedInputs.current.has(forgeKey);
+
+    updateSlots(() => Array.from({ length: pageCount }, () => ({ status: 'queued', attempts: 0 })));
+    let story: Storyline | null = null;
+    if (storyMode) {
+      story = await planStory(fresh);
+      if (!story) return;
+      setBookTitle(story.title);
+      setSynopsis(story.synopsis);
+    }
+    const designedCast = await designCharacterSheets(cast);
+    if (!designedCast) return;
+
+    jobInput.current = { cast: designedCast, scenery, settings: sceneSettings, beats: story?.beats, fresh };
+    const cancelled = await runPageJob(Array.from({ length: pageCount }, (_, i) => i));
+
+    const slots = slotsRef.current;
+    if (slots.some(slot => slot.status === 'done')) {
+      // Only a forge that produced a book counts; retrying a failed or cancelled one can still use what it cached.
+      if (forgeKey) forgedInputs.current.add(forgeKey);
       setStatus(AppStatus.SUCCESS);
-    } catch (err: any) {
-      setError(err.message || "Failed to generate. Please try again.");
+    } else if (cancelled) {
+      setStatus(AppStatus.IDLE);
+    } else {
+      setError(toErrorNotice(slots.find(slot => slot.error)?.error));
       setStatus(AppStatus.ERROR);
     }
   };
 
-  const saveToLibrary = () => {
+  // Ends a generation that stopped before any page was drawn.
+  const abandonGeneration = (aborted: boolean, failure?: Error) => {
+    updateSlots(() => []);
+    if (aborted) {
+      setStatus(AppStatus.IDLE);
+      return;
+    }
+    setError(toErrorNotice(failure));
+    setStatus(AppStatus.ERROR);
+  };
+
+  // Story mode writes the plot first so every page can be drawn from its own beat.
+  const planStory = async (fresh: boolean): Promise<Storyline | null> => {
+    const controller = new AbortController();
+    jobController.current = controller;
+    setPreparationStep("Writing your story...");
+    const outcome: { slot?: PageJobSlot<Storyline> } = {};
+    await runGenerationJob(
+      [0],
+      (_, signal) => geminiService.writeStory(cast, scenery, pageCount, sceneSettings, { signal, fresh }),
+      { signal: controller.signal, onUpdate: (_, slot) => { outcome.slot = slot; }, shouldRetry: isRetryableError }
+    );
+    setPreparationStep(null);
+    if (jobController.current === controller) jobController.current = null;
+
+    if (outcome.slot?.result) return outcome.slot.result;
+    abandonGeneration(controller.signal.aborted, outcome.slot?.error);
+    return null;
+  };
+
+  // First step of every book: each hero gets a character sheet so they look the same on every page.
+  // Resolves to null (with the status already updated) if the book can't go ahead.
+  const designCharacterSheets = async (heroes: Hero[]): Promise<Hero[] | null> => {
+    const missing = heroes.flatMap((hero, i) => hero.sheet ? [] : [i]);
+    if (missing.length === 0) return heroes;
+
+    const controller = new AbortController();
+    jobController.current = controller;
+    setPreparationStep("Designing your heroes' signature looks...");
+    const designed = [...heroes];
+    let failure: Error | undefined;
+    await runGenerationJob(
+      missing,
+      (index, signal) => geminiService.generateCharacterSheet(heroes[index], index, sceneSettings, { signal }),
+      {
+        signal: controller.signal,
+        onUpdate: (index, slot) => {
+          if (slot.result) designed[index] = { ...heroes[index], sheet: slot.result };
+          if (slot.status === 'failed') failure ??= slot.error;
+        },
+        shouldRetry: isRetryableError,
+      }
+    );
+    setPreparationStep(null);
+    if (jobController.current === controller) jobController.current = null;
+    // Finished sheets are kept either way, so a retry only designs the rest.
+    setCast(designed);
+
+    if (controller.signal.aborted || failure) {
+      abandonGeneration(controller.signal.aborted, failure);
+      return null;
+    }
+    return designed;
+  };
+
+  const updateSceneSettings = (next: SceneSettings) => {
+    // Character sheets are drawn in the art style, so a new style needs new sheets.
+    if (next.artStyle !== sceneSettings.artStyle) {
+      setCast(prev => prev.map(({ sheet: _sheet, ...hero }) => hero));
+    }
+    setSceneSettings(next);
+  };
+
+  const recoverFromError = (recovery: RecoveryAction) => {
+    switch (recovery) {
+      case 'change-photo':
+        setError(null);
+        castSectionRef.current?.scrollIntoView({ behavior: 'smooth' });
+        break;
+      case 'change-scene':
+        setError(null);
+        sceneryInputRef.current?.focus();
+        sceneryInputRef.current?.select();
+        break;
+      case 'check-key':
+        break;
+      default:
+        handleGenerate();
+    }
+  };
+
+  const updateSlots = (update: (slots: PageJobSlot<QuestPage>[]) => PageJobSlot<QuestPage>[]) => {
+    slotsRef.current = update(slotsRef.current);
+    setPageSlots(slotsRef.current);
+  };
+
+  // Generates (or regenerates) the given page slots; resolves to whether the job was cancelled.
+  const runPageJob = async (indices: number[]): Promise<boolean> => {
+    const input = jobInput.current;
+    if (!input) return false;
+
+    const controller = new AbortController();
+    jobController.current = controller;
+    await runGenerationJob(
+      indices,
+      async (index, signal) => {
+        const origin = input.origins?.[index] ?? index;
+        const beat = input.beats?.[origin];
+        const page = await geminiService.generateWaldoImage(input.cast, beat?.scene ?? describePageScene(input.scenery, origin), input.settings, { signal, fresh: input.fresh, page: origin });
+        return beat ? { ...page, caption: beat.caption } : page;
+      },
+      {
+        signal: controller.signal,
+        onUpdate: (index, slot) => updateSlots(prev => prev.map((s, i) => i === index ? slot : s)),
+        shouldRetry: isRetryableError,
+      }
+    );
+    if (jobController.current === controller) jobController.current = null;
+    return controller.signal.aborted;
+  };
+
+  const cancelGeneration = () => {
+    jobController.current?.abort();
+  };
+
+  const retryUnfinishedPages = async () => {
+    const indices = slotsRef.current.flatMap((slot, i) => slot.status === 'failed' || slot.status === 'cancelled' ? [i] : []);
+    if (indices.length === 0 || jobController.current) return;
+    await runPageJob(indices);
+  };
+
+  // Forgets any generation job, e.g. when a saved book is opened instead.
+  const discardJob = () => {
+    jobController.current?.abort();
+    jobController.current = null;
+    differenceController.current?.abort();
+    jobInput.current = null;
+    updateSlots(() => []);
+  };
+
+  /**
+   * After a page edit, pages that failed or were cancelled stay retryable: the edited pages become the
+   * finished slots, in their new order, and the unfinished ones follow them. A job still running is dropped.
+   */
+  const keepUnfinishedSlots = (next: QuestPage[]) => {
+    const input = jobInput.current;
+    const unfinished = slotsRef.current.flatMap((slot, i) => slot.status === 'failed' || slot.status === 'cancelled' ? [i] : []);
+    if (!input || unfinished.length === 0 || jobController.current) {
+      discardJob();
+      return;
+    }
+    differenceController.current?.abort();
+    const origins = input.origins ?? slotsRef.current.map((_, i) => i);
+    const done = next.map(page => slotsRef.current.find(slot => slot.result === page) ?? { status: 'done' as const, attempts: 1, result: page });
+    jobInput.current = { ...input, origins: [...next.map(() => -1), ...unfinished.map(i => origins[i])] };
+    updateSlots(prev => [...done, ...unfinished.map(i => prev[i])]);
+  };
+
+  // Applies a page-level edit; books already in the Vault are written straight back to it.
+  const commitPages = (next: QuestPage[], nextPage: number) => {
+    keepUnfinishedSlots(next);
+    setPages(next);
+    // Queued after the edit so the time isn't lost with the old page list.
+    flushPlayTime();
+    setCurrentPage(Math.max(0, Math.min(nextPage, next.length - 1)));
+    const book = activeBook(next);
+    if (book) persistBook(book);
+  };
+
+  const movePage = (from: number, to: number) => {
+    if (to < 0 || to >= pages.length) return;
+    const next = [...pages];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    commitPages(next, next.indexOf(pages[currentPage]));
+  };
+
+  const deletePage = (index: number) => {
+    if (pages.length <= 1) return;
+    if (!window.confirm(`Delete page ${index + 1}? This can't be undone.`)) return;
+    const next = pages.filter((_, i) => i !== index);
+    const viewing = next.indexOf(pages[currentPage]);
+    commitPages(next, viewing >= 0 ? viewing : index);
+  };
+
+  const openPageEdit = (index: number | null) => {
+    const prompt = index === null
+      ? describePageScene(scenery, pages.length)
+      : pages[index].prompt ?? describePageScene(scenery, index);
+    setPageEdit({ index, prompt });
+    setPageEditError(null);
+  };
+
+  const closePageEdit = () => {
+    pageEditController.current?.abort();
+    pageEditController.current = null;
+    setPageEdit(null);
+  };
+
+  // Draws a single replacement or extra page with the same retry policy as a full book.
+  const submitPageEdit = async (prompt: string) => {
+    if (!pageEdit || cast.length === 0) return;
+
+    const controller = new AbortController();
+    pageEditController.current = controller;
+    setIsDrawingPage(true);
+    setPageEditError(null);
+
+    // Redrawing or adding a page asks for a new picture, even if this prompt was drawn before.
+    const outcome: { slot?: PageJobSlot<QuestPage> } = {};
+    await runGenerationJob(
+      [0],
+      (_, signal) => geminiService.generateWaldoImage(cast, prompt, sceneSettings, { signal, fresh: true, page: pageEdit.index ?? pages.length }),
+      { signal: controller.signal, onUpdate: (_, slot) => { outcome.slot = slot; }, shouldRetry: isRetryableError }
+    );
+    setIsDrawingPage(false);
+    if (controller.signal.aborted) return;
+    pageEditController.current = null;
+
+    const page = outcome.slot?.result;
+    if (!page) {
+      setPageEditError(outcome.slot?.error?.message || "Couldn't draw this page. Please try again.");
+      return;
+    }
+    if (pageEdit.index === null) {
+      commitPages([...pages, page], pages.length);
+    } else {
+      // A redrawn page keeps its place in the story.
+      commitPages(pages.map((p, i) => i === pageEdit.index ? { ...page, caption: p.caption } : p), pageEdit.index);
+    }
+    setPageEdit(null);
+  };
+
+  // What has been found on a page: the current challenge turn's board while one is running, otherwise the page's own progress.
+  const progressOf = (pageIndex: number): PageProgress =>
+    challenge ? challengeProgress(challenge, pages[pageIndex], pageIndex, cast.length) : pageProgress(pages[pageIndex], cast.length);
+
+  const updatePageProgress = (pageIndex: number, update: (progress: PageProgress) => PageProgress) => {
+    if (challenge) {
+      setChallenge(prev => prev && {
+        ...prev,
+        found: { ...prev.found, [pageIndex]: update(challengeProgress(prev, pages[pageIndex], pageIndex, cast.length)) },
+      });
+      return;
+    }
+    setPages(prev => prev.map((page, i) => i === pageIndex ? { ...page, progress: update(pageProgress(page, cast.length)) } : page));
+  };
+
+  // Adds the time since the play clock last started to that page, and restarts the clock.
+  const flushPlayTime = () => {
+    const clock = playClock.current;
+    if (!clock) return;
+    const now = Date.now();
+    const elapsed = now - clock.since;
+    clock.since = now;
+    setPages(prev => prev.map(page => {
+      if (pageKey(page) !== clock.pageKey) return page;
+      const progress = pageProgress(page, cast.length);
+      return { ...page, progress: { ...progress, timeSpentMs: progress.timeSpentMs + elapsed } };
+    }));
+  };
+
+  // Turns a classic page into a spot-the-difference page right after it; on a spot-the-difference page,
+  // makes a fresh set of differences in its place.
+  const makeDifferencePage = async (index: number) => {
+    const source = pages[index];
+    const controller = new AbortController();
+    differenceController.current = controller;
+    setDifferenceSource(index);
+
+    const outcome: { slot?: PageJobSlot<QuestPage> } = {};
+    await runGenerationJob(
+      [0],
+      (_, signal) => geminiService.createDifferencePage(source, sceneSettings, { signal, fresh: !!source.difference }),
+      { signal: controller.signal, onUpdate: (_, slot) => { outcome.slot = slot; }, shouldRetry: isRetryableError }
+    );
+    setDifferenceSource(null);
+    if (controller.signal.aborted) return;
+    differenceController.current = null;
+
+    const page = outcome.slot?.result;
+    if (!page) {
+      alert(outcome.slot?.error?.message || "Couldn't make a spot-the-difference page. Please try again.");
+      return;
+    }
+    // Play may have carried on meanwhile, so the latest pages are used and the source is found again.
+    const latest = pagesRef.current;
+    const at = latest.findIndex(p => pageKey(p) === pageKey(source));
+    if (at < 0) return;
+    const next = source.difference
+      ? latest.map((p, i) => i === at ? page : p)
+      : [...latest.slice(0, at + 1), page, ...latest.slice(at + 1)];
+    commitPages(next, source.difference ? at : at + 1);
+  };
+
+  // Writes a book that is already in the library back to storage after it changed.
+  const persistBook = async (book: SavedBook) => {
+    try {
+      const saved = await bookStore.saveBook(book);
+      setLibrary(prev => prev.map(b => b.id === book.id ? saved : b));
+    } catch (e) {
+      console.error("Failed to update book", e);
+      alert(describeStorageError(e));
+    }
+  };
+
+  // The open book as it would be saved, or null if it isn't in the Vault. The Vault only lists it,
+  // so the pictures come from what is on screen: while a book is open its cast can't be edited.
+  const activeBook = (bookPages: QuestPage[] = pages): SavedBook | null => {
+    const summary = library.find(b => b.id === activeBookId);
+    if (!summary) return null;
+    const { pages: _pages, cast: _cast, size: _size, ...meta } = summary;
+    return { ...meta, pages: bookPages, cast, lastPage: currentPage };
+  };
+
+  // The book on screen, whether or not it has been saved to the Vault yet.
+  const currentBook = (): SavedBook => {
+    const existing = activeBook();
+    if (existing) return existing;
+    return {
+      id: 'draft',
+      title: bookTitle ?? scenery,
+      pages,
+      cast,
+      scenery,
+      synopsis: synopsis ?? undefined,
+      settings: sceneSettings,
+      lastPage: currentPage,
+      leaderboard,
+      createdAt: Date.now()
+    };
+  };
+
+  const saveToLibrary = async () => {
     if (pages.length === 0) return;
+
+    const existing = activeBook();
+    if (existing) {
+      await persistBook(existing);
+      alert("Adventure saved to your library!");
+      return;
+    }
     
     const newBook: SavedBook = {
-      id: Date.now().toString(),
-      title: scenery,
+      id: newBookId(),
+      title: bookTitle ?? scenery,
       pages: pages,
-      targetImage: selectedImage,
+      cast,
+      scenery,
+      synopsis: synopsis ?? undefined,
+      settings: sceneSettings,
+      lastPage: currentPage,
+      leaderboard,
       createdAt: Date.now()
     };
 
-    setLibrary(prev => [newBook, ...prev]);
-    alert("Adventure saved to your library!");
+    try {
+      const saved = await bookStore.saveBook(newBook);
+      setLibrary(prev => [saved, ...prev]);
+      setActiveBookId(newBook.id);
+      alert("Adventure saved to your library!");
+    } catch (e) {
+      console.error("Failed to save book", e);
+      alert(describeStorageError(e));
+    }
   };
 
-  const handleLocateMe = async () => {
-    if (!selectedImage || !pages[currentPage]) return;
-    
-    setIsLocating(true);
-    setHintBox(null);
-    
+  const clearHints = () => {
+    setHint(null);
+    setHintLevels({});
+    setHoverPoint(null);
+  };
+
+  // Spot-the-difference changes are named by number, so a hint doesn't describe the change.
+  const targetName = (target: HintTarget): string | undefined => {
+    if (target.kind === 'hero') return cast[target.index]?.name;
+    const page = pages[currentPage];
+    if (!page?.questItems[target.index]) return undefined;
+    return page.difference ? `Difference ${target.index + 1}` : page.questItems[target.index];
+  };
+
+  // Each hint for the same target climbs one rung of the ladder; every rung counts towards the page's hints.
+  const handleHint = async (target: HintTarget) => {
+    const name = targetName(target);
+    if (!name || !pages[currentPage]) return;
+
+    setLocatingHint(target);
     try {
-      const box = await geminiService.locateTarget(selectedImage, pages[currentPage].imageUrl);
-      if (box) {
-        setHintBox(box);
-      } else {
-        alert("Target is too well hidden! Keep searching!");
+      const answerKey = await ensureAnswerKey(currentPage);
+      const box = (target.kind === 'hero' ? answerKey.heroes : answerKey.items)[target.index];
+      if (!box) {
+        alert(`${name} is too well hidden! Keep searching!`);
+        return;
+      }
+      const current = hintLevels[hintKey(target)];
+      const level = Math.min(MAX_HINT_LEVEL, (current ?? 0) + 1) as HintLevel;
+      setHint({ target, level, box });
+      setHintLevels(prev => ({ ...prev, [hintKey(target)]: level }));
+      // Bringing the full answer back up again is free.
+      if (level !== current) {
+        updatePageProgress(currentPage, progress => ({ ...progress, hintsUsed: progress.hintsUsed + 1 }));
       }
     } catch (e) {
       console.error(e);
+      alert(e instanceof GenerationError ? e.message : "Couldn't look for it right now. Please try again.");
+    } finally {
+      setLocatingHint(null);
+    }
+  };
+
+  const hintButtonTitle = (target: HintTarget): string => {
+    const next = Math.min(MAX_HINT_LEVEL, (hintLevels[hintKey(target)] ?? 0) + 1) as HintLevel;
+    return `Hint ${next} of ${MAX_HINT_LEVEL}: ${HINT_LABELS[next].toLowerCase()}`;
+  };
+
+  // Heroes first, then any item that can be pointed at.
+  const nextHintTarget = (): HintTarget | null => {
+    if (!currentProgress) return null;
+    const heroIndex = currentProgress.heroesFound.findIndex(found => !found);
+    if (heroIndex >= 0) return { kind: 'hero', index: heroIndex };
+    const itemIndex = currentProgress.itemsFound.findIndex((found, i) => !found && !!currentAnswerKey?.items[i]);
+    return itemIndex >= 0 ? { kind: 'item', index: itemIndex } : null;
+  };
+
+  const openChallengeSetup = () => {
+    setIsEditingPages(false);
+    setShowChallengeSetup(true);
+  };
+
+  // Every page in the race needs an answer key before the clock starts, or it could never be cleared.
+  const startChallenge = async (players: string[], scope: ChallengeScope) => {
+    const run = createChallenge(players, scope, currentPage);
+    setIsPreparingChallenge(true);
+    try {
+      await Promise.all(challengePages(run, pages.length).map(i => ensureAnswerKey(i)));
+    } catch (e) {
+      console.error("Failed to prepare challenge", e);
+      alert(e instanceof GenerationError ? e.message : "Couldn't get the pages ready for a challenge. Please try again.");
+      return;
     } finally {
-      setIsLocating(false);
+      setIsPreparingChallenge(false);
     }
+    setChallengePlayers(players);
+    setShowChallengeSetup(false);
+    setLatestEntry(undefined);
+    beginChallenge(run);
+  };
+
+  const beginChallenge = (run: ChallengeRun) => {
+    clearHints();
+    setCurrentPage(run.scope === 'page' ? run.pageIndex : 0);
+    setChallenge(run);
+  };
+
+  const startChallengeClock = () => {
+    setChallenge(prev => prev && { ...prev, phase: 'playing', startedAt: Date.now() });
+  };
+
+  const finishChallengeTurn = (run: ChallengeRun) => {
+    const result = scoreTurn(run.players[run.turn], Date.now() - run.startedAt, challengeHints(run));
+    setChallenge({ ...run, phase: 'turn-over', results: [...run.results, result] });
+    clearHints();
+    const entry: LeaderboardEntry = {
+      ...result,
+      scope: run.scope,
+      pageNumber: run.scope === 'page' ? run.pageIndex + 1 : undefined,
+      playedAt: Date.now(),
+    };
+    setLatestEntry(entry);
+    recordScore(entry);
+  };
+
+  // Pass-and-play: the next player starts from a clean board.
+  const nextChallengeTurn = () => {
+    if (!challenge) return;
+    beginChallenge({ ...challenge, turn: challenge.turn + 1, phase: 'countdown', found: {} });
+  };
+
+  const replayChallenge = () => {
+    if (!challenge) return;
+    setLatestEntry(undefined);
+    beginChallenge(createChallenge(challenge.players, challenge.scope, challenge.pageIndex));
+  };
+
+  const quitChallenge = () => {
+    setChallenge(null);
+    clearHints();
+  };
+
+  const recordScore = (entry: LeaderboardEntry) => {
+    const next = addToLeaderboard(leaderboard, entry);
+    setLeaderboard(next);
+    if (!activeBookId) return;
+    setLibrary(prev => prev.map(b => b.id === activeBookId ? { ...b, leaderboard: next } : b));
+    bookStore.saveLeaderboard(activeBookId, next).catch(e => console.error("Failed to save leaderboard", e));
   };
 
   const handleShare = async () => {
     const shareData = {
       title: 'CrowdQuest Adventure',
       text: `I just created a custom search-and-find adventure set in "${scenery}"! Try to find me in the crowd at CrowdQuest.`,
-      url: window.location.href,
+      // Only saved books have an address that can be opened again; drafts share the app itself.
+      url: activeBookId ? window.location.href : window.location.origin,
     };
 
+    // Where the platform can share files, send the book itself so the recipient can import and play it.
+    const book = currentBook();
+    const bookFile = new File([createBookArchive(book)], toFileName(book.title, ARCHIVE_EXTENSION), { type: 'application/json' });
+
     try {
-      if (navigator.share) {
+      if (navigator.canShare?.({ files: [bookFile] })) {
+        await navigator.share({ ...shareData, files: [bookFile] });
+      } else if (navigator.share) {
         await navigator.share(shareData);
       } else {
         await navigator.clipboard.writeText(`${shareData.text} ${shareData.url}`);
@@ -153,41 +908,324 @@ const App: React.FC = () => {
     }
   };
 
-  const deleteBook = (id: string, e: React.MouseEvent) => {
-    e.stopPropagation();
-    if (window.confirm("Delete this quest from your library?")) {
-      setLibrary(prev => prev.filter(b => b.id !== id));
+  const deleteBooks = async (ids: string[]) => {
+    const question = ids.length === 1 ? "Delete this quest from your library?" : `Delete ${ids.length} quests from your library?`;
+    if (window.confirm(question)) {
+      try {
+        await bookStore.deleteBooks(ids);
+        setLibrary(prev => prev.filter(b => !ids.includes(b.id)));
+        if (activeBookId && ids.includes(activeBookId)) setActiveBookId(null);
+      } catch (err) {
+        console.error("Failed to delete books", err);
+        alert(describeStorageError(err));
+      }
     }
   };
 
-  const loadBook = (book: SavedBook) => {
-    setSelectedImage(book.targetImage);
-    setScenery(book.title);
+  const saveBookDetails = async (book: BookSummary, details: Pick<SavedBook, 'title' | 'tags'>) => {
+    try {
+      await bookStore.saveDetails(book.id, details);
+      setLibrary(prev => prev.map(b => b.id === book.id ? { ...b, ...details } : b));
+      if (book.id === activeBookId) setBookTitle(details.title);
+    } catch (err) {
+      console.error("Failed to update book details", err);
+      alert(describeStorageError(err));
+    }
+  };
+
+  // The Vault only lists books, so anything that needs the pictures reads the whole book first.
+  const readBook = async (summary: BookSummary): Promise<SavedBook | null> => {
+    try {
+      const book = await bookStore.loadBook(summary.id);
+      if (!book) alert(`"${summary.title}" is no longer in your Vault.`);
+      return book;
+    } catch (err) {
+      console.error("Failed to read book", err);
+      alert(describeStorageError(err));
+      return null;
+    }
+  };
+
+  const duplicateBook = async (summary: BookSummary) => {
+    const book = await readBook(summary);
+    if (!book) return;
+    try {
+      const copy = await bookStore.saveBook(asDuplicate(book));
+      setLibrary(prev => [copy, ...prev]);
+    } catch (err) {
+      console.error("Failed to duplicate book", err);
+      alert(describeStorageError(err));
+    }
+  };
+
+  const exportBook = async (summary: BookSummary) => {
+    const book = await readBook(summary);
+    if (book) downloadBlob(createBookArchive(book), toFileName(book.title, ARCHIVE_EXTENSION));
+  };
+
+  const handleImportBook = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    let book: SavedBook;
+    try {
+      book = await readBookArchive(file);
+    } catch (err) {
+      console.error("Failed to read book file", err);
+      alert(err instanceof ArchiveError ? err.message : "Could not open that file.");
+      return;
+    }
+
+    const duplicate = library.find(b => b.id === book.id);
+    if (duplicate && !window.confirm(`"${duplicate.title}" is already in your Vault. Replace it with the imported copy?\n\nChoose Cancel to keep both.`)) {
+      book = asImportedCopy(book);
+    }
+
+    try {
+      const saved = await bookStore.saveBook(book);
+      setLibrary(prev => [saved, ...prev.filter(b => b.id !== saved.id)].sort((a, b) => b.createdAt - a.createdAt));
+      // The open book was replaced; showing (and autosaving) the old copy would undo the import.
+      if (saved.id === activeBookId) loadBook(book);
+      alert(`"${saved.title}" was added to your Vault!`);
+    } catch (err) {
+      console.error("Failed to save imported book", err);
+      alert(describeStorageError(err));
+    }
+  };
+
+  const loadBook = (book: SavedBook, page = book.lastPage ?? 0) => {
+    discardJob();
+    setActiveBookId(book.id);
+    setCast(book.cast);
+    setSceneSettings(book.settings ?? DEFAULT_SCENE_SETTINGS);
+    setScenery(book.scenery ?? book.title);
+    setBookTitle(book.title);
+    setSynopsis(book.synopsis ?? null);
     setPages(book.pages);
     setPageCount(book.pages.length);
-    setCurrentPage(0);
+    setCurrentPage(Math.max(0, Math.min(page, book.pages.length - 1)));
     setStatus(AppStatus.SUCCESS);
     setShowLibrary(false);
-    setHintBox(null);
-    setFoundItems({});
+    clearHints();
+    setChallenge(null);
+    setLeaderboard(book.leaderboard ?? []);
+    answerKeyRequests.current.clear();
+  };
+
+  const openBook = async (summary: BookSummary, page = summary.lastPage ?? 0) => {
+    const book = await readBook(summary);
+    if (book) loadBook(book, page);
   };
 
   const handleReset = () => {
+    discardJob();
+    setIsEditingPages(false);
+    setActiveBookId(null);
     setStatus(AppStatus.IDLE);
     setPages([]);
     setScenery('');
-    setPagesCompleted(0);
+    setBookTitle(null);
+    setSynopsis(null);
     setCurrentPage(0);
-    setSelectedImage(null);
-    setHintBox(null);
-    setFoundItems({});
+    setCast([]);
+    clearHints();
+    setChallenge(null);
+    setLeaderboard([]);
+    answerKeyRequests.current.clear();
+  };
+
+  // Brings the app in line with an address reached by reloading or Back/Forward.
+  const followRoute = (next: Route, books = library) => {
+    if (next.view === 'vault') {
+      setShowLibrary(true);
+      return;
+    }
+    setShowLibrary(false);
+    const isBookOpen = status === AppStatus.SUCCESS && pages.length > 0;
+    const showPage = (page: number) => {
+      if (!isPageLocked) setCurrentPage(Math.min(page, pages.length - 1));
+    };
+
+    if (next.view === 'book') {
+      if (isBookOpen && next.bookId === activeBookId) {
+        showPage(next.page);
+        return;
+      }
+      const book = books.find(b => b.id === next.bookId);
+      if (book) openBook(book, next.page);
+      else alert("That adventure isn't in the Quest Vault on this device.");
+      return;
+    }
+
+    if (!isBookOpen) return;
+    if (next.page !== undefined) {
+      if (!activeBookId) showPage(next.page);
+      return;
+    }
+    if (!activeBookId && !window.confirm("Leave this adventure? It hasn't been saved to your Vault yet.")) return;
+    handleReset();
+  };
+  followRouteRef.current = followRoute;
+
+  const handleImageTap = async (point: NormalizedPoint) => {
+    const page = pages[currentPage];
+    if (!page) return;
+
+    let answerKey: AnswerKey;
+    try {
+      answerKey = await ensureAnswerKey(currentPage);
+    } catch (e) {
+      console.error(e);
+      return;
+    }
+
+    const progress = progressOf(currentPage);
+    const heroIndex = answerKey.heroes.findIndex((box, i) => !progress.heroesFound[i] && box !== null && isPointInBox(point, box, TAP_PADDING));
+    if (heroIndex >= 0) {
+      updatePageProgress(currentPage, p => ({ ...p, heroesFound: p.heroesFound.map((found, i) => found || i === heroIndex) }));
+      if (hint && sameTarget(hint.target, { kind: 'hero', index: heroIndex })) setHint(null);
+      return;
+    }
+
+    const hitIndex = page.questItems.findIndex((_, i) => {
+      const box = answerKey.items[i];
+      return !progress.itemsFound[i] && box !== null && box !== undefined && isPointInBox(point, box, TAP_PADDING);
+    });
+    if (hitIndex >= 0) {
+      updatePageProgress(currentPage, p => ({ ...p, itemsFound: p.itemsFound.map((found, i) => found || i === hitIndex) }));
+      if (hint && sameTarget(hint.target, { kind: 'item', index: hitIndex })) setHint(null);
+      return;
+    }
+
+    setMissMarker({ ...point, id: Date.now() });
   };
 
-  const toggleItemFound = (item: string) => {
-    setFoundItems(prev => ({ ...prev, [item]: !prev[item] }));
+  // Items the model couldn't place fall back to being ticked off by hand - but not against the clock.
+  const canTickItem = (index: number) => {
+    const answerKey = pages[currentPage]?.answerKey;
+    return !challenge && !!answerKey && !answerKey.items[index];
   };
 
-  const progressPercentage = Math.round((pagesCompleted / pageCount) * 100);
+  const toggleItemFound = (index: number) => {
+    if (!canTickItem(index)) return;
+    updatePageProgress(currentPage, p => ({ ...p, itemsFound: p.itemsFound.map((found, i) => i === index ? !found : found) }));
+  };
+
+  const isDifferencePage = !!pages[currentPage]?.difference;
+  const currentAnswerKey = pages[currentPage]?.answerKey;
+  const currentProgress = pages[currentPage] ? progressOf(currentPage) : null;
+  const currentCompletion = pages[currentPage] ? pageCompletion({ ...pages[currentPage], progress: currentProgress ?? undefined }, cast.length) : { found: 0, total: 0 };
+  // A single-page race keeps everyone on that page.
+  const isPageLocked = challenge?.scope === 'page';
+
+  const pagesCompleted = pageSlots.filter(slot => slot.status === 'done').length;
+  const progressPercentage = pageSlots.length > 0 ? Math.round((pagesCompleted / pageSlots.length) * 100) : 0;
+  const isJobRunning = pageSlots.some(slot => ['queued', 'generating', 'retrying'].includes(slot.status));
+  const unfinishedSlots = pageSlots.filter(slot => slot.status === 'failed' || slot.status === 'cancelled').length;
+
+  const pageTapHandler = status === AppStatus.SUCCESS && (!challenge || challenge.phase === 'playing') ? handleImageTap : undefined;
+  const pageHoverHandler = hint?.level === 3 ? setHoverPoint : undefined;
+  // Drawn over the page, or over both pictures of a spot-the-difference page.
+  const pageOverlays = (
+    <>
+      {/* Found Markers */}
+      {currentAnswerKey?.heroes.map((box, i) => {
+        if (!currentProgress?.heroesFound[i] || !box) return null;
+        return (
+          <div
+            key={`hero-${i}`}
+            className="absolute pointer-events-none border-4 border-indigo-500 rounded-full animate-in zoom-in duration-300"
+            style={boxToStyle(box)}
+          >
+            <div className="absolute -top-3 -right-3 w-6 h-6 bg-indigo-600 text-white rounded-full flex items-center justify-center shadow-lg">
+              <i className="fas fa-star text-[10px]"></i>
+            </div>
+          </div>
+        );
+      })}
+      {pages[currentPage]?.questItems.map((item, i) => {
+        const box = currentAnswerKey?.items[i];
+        if (!currentProgress?.itemsFound[i] || !box) return null;
+        return (
+          <div
+            key={`found-${i}`}
+            className="absolute pointer-events-none border-4 border-emerald-500 rounded-full animate-in zoom-in duration-300"
+            style={boxToStyle(box)}
+          >
+            <div className="absolute -top-3 -right-3 w-6 h-6 bg-emerald-500 text-white rounded-full flex items-center justify-center shadow-lg">
+              <i className="fas fa-check text-[10px]"></i>
+            </div>
+          </div>
+        );
+      })}
+
+      {/* Miss Marker */}
+      {missMarker && (
+        <div
+          key={missMarker.id}
+          className="absolute pointer-events-none w-8 h-8 -ml-4 -mt-4 rounded-full bg-red-500/80 text-white flex items-center justify-center shadow-lg animate-shake"
+          style={{ left: `${missMarker.x / 10}%`, top: `${missMarker.y / 10}%` }}
+        >
+          <i className="fas fa-times text-xs"></i>
+        </div>
+      )}
+
+      {/* Hint Ladder */}
+      {hint && hint.level < 3 && (
+        <div
+          className="absolute pointer-events-none rounded-2xl border-4 border-dashed border-indigo-400"
+          style={{
+            ...boxToStyle(hintRegion(hint.box, hint.level as 1 | 2)),
+            boxShadow: '0 0 0 9999px rgba(0,0,0,0.3)',
+            zIndex: 50,
+            transition: 'all 0.5s ease-out'
+          }}
+        >
+          <div className="absolute top-2 left-1/2 -translate-x-1/2 bg-indigo-600 text-white text-[9px] font-bold px-3 py-1.5 rounded-full whitespace-nowrap shadow-xl">
+            <i className="fas fa-lightbulb mr-2"></i> {targetName(hint.target)?.toUpperCase()}: {HINT_LABELS[hint.level].toUpperCase()}
+          </div>
+        </div>
+      )}
+      {hint?.level === 3 && (
+        <>
+          <div
+            className="absolute pointer-events-none rounded-2xl border-2 border-dashed border-indigo-300/70"
+            style={boxToStyle(hintRegion(hint.box, 2))}
+          />
+          {hoverPoint ? (
+            <div
+              className={`absolute pointer-events-none -translate-x-1/2 -translate-y-[140%] ${hintTemperature(hoverPoint, hint.box).color} text-white text-[9px] font-bold px-2 py-1 rounded-full whitespace-nowrap shadow-xl`}
+              style={{ left: `${hoverPoint.x / 10}%`, top: `${hoverPoint.y / 10}%`, zIndex: 50 }}
+            >
+              <i className={`fas ${hintTemperature(hoverPoint, hint.box).icon} mr-1`}></i> {hintTemperature(hoverPoint, hint.box).label}
+            </div>
+          ) : (
+            <div className="absolute top-3 left-1/2 -translate-x-1/2 pointer-events-none bg-indigo-600 text-white text-[9px] font-bold px-3 py-1.5 rounded-full whitespace-nowrap shadow-xl" style={{ zIndex: 50 }}>
+              <i className="fas fa-temperature-half mr-2"></i> MOVE OVER THE PICTURE TO FIND {targetName(hint.target)?.toUpperCase()}
+            </div>
+          )}
+        </>
+      )}
+      {hint?.level === 4 && (
+        <div 
+          className="absolute pointer-events-none"
+          style={{
+            ...boxToStyle(hint.box),
+            border: '4px solid #6366f1',
+            borderRadius: '50%',
+            boxShadow: '0 0 0 9999px rgba(0,0,0,0.4)',
+            zIndex: 50,
+            transition: 'all 0.5s cubic-bezier(0.175, 0.885, 0.32, 1.275)'
+          }}
+        >
+          <div className="absolute -top-10 left-1/2 -translate-x-1/2 bg-indigo-600 text-white text-[9px] font-bold px-3 py-1.5 rounded-full whitespace-nowrap shadow-xl">
+            <i className="fas fa-bullseye mr-2"></i> {targetName(hint.target)?.toUpperCase()} SPOTTED
+          </div>
+        </div>
+      )}
+    </>
+  );
 
   return (
     <div className="min-h-screen bg-slate-100 flex flex-col font-['Fredoka'] selection:bg-indigo-100">
@@ -215,9 +1253,19 @@ const App: React.FC = () => {
           </button>
           {status === AppStatus.SUCCESS && (
             <div className="flex space-x-1 md:space-x-2">
+               <button
+                 onClick={openChallengeSetup}
+                 disabled={isJobRunning || challenge !== null}
+                 className="bg-amber-100 text-amber-700 px-3 py-2 rounded-lg text-xs md:text-sm font-bold flex items-center gap-2 hover:bg-amber-200 disabled:opacity-40"
+               >
+                 <i className="fas fa-stopwatch"></i> <span className="hidden lg:inline">Challenge</span>
+               </button>
                <button onClick={handleShare} className="bg-indigo-100 text-indigo-600 px-3 py-2 rounded-lg text-xs md:text-sm font-bold flex items-center gap-2 hover:bg-indigo-200">
                  <i className="fas fa-share-alt"></i> <span className="hidden lg:inline">Share</span>
                </button>
+               <button onClick={() => setShowPdfExport(true)} className="bg-indigo-100 text-indigo-600 px-3 py-2 rounded-lg text-xs md:text-sm font-bold flex items-center gap-2 hover:bg-indigo-200">
+                 <i className="fas fa-print"></i> <span className="hidden lg:inline">Print</span>
+               </button>
                <button onClick={saveToLibrary} className="bg-emerald-600 text-white px-3 py-2 rounded-lg text-xs md:text-sm font-bold flex items-center gap-2 hover:bg-emerald-700">
                  <i className="fas fa-save"></i> <span className="hidden lg:inline">Save</span>
                </button>
@@ -229,6 +1277,34 @@ const App: React.FC = () => {
         </div>
       </header>
 
+      {pageEdit && (
+        <PagePromptDialog
+          title={pageEdit.index === null ? `Add Page ${pages.length + 1}` : `Redraw Page ${pageEdit.index + 1}`}
+          initialPrompt={pageEdit.prompt}
+          submitLabel={pageEdit.index === null ? 'Draw New Page' : 'Redraw Page'}
+          isGenerating={isDrawingPage}
+          error={pageEditError}
+          onSubmit={submitPageEdit}
+          onCancel={closePageEdit}
+        />
+      )}
+
+      {showChallengeSetup && (
+        <ChallengeSetupDialog
+          initialPlayers={challengePlayers}
+          currentPage={currentPage}
+          pageCount={pages.length}
+          leaderboard={leaderboard}
+          isPreparing={isPreparingChallenge}
+          onStart={startChallenge}
+          onCancel={() => setShowChallengeSetup(false)}
+        />
+      )}
+
+      {showPdfExport && (
+        <PdfExportDialog book={currentBook()} onClose={() => setShowPdfExport(false)} />
+      )}
+
       {/* Share Toast */}
       {isSharing && (
         <div className="fixed top-20 left-1/2 -translate-x-1/2 bg-slate-800 text-white px-4 py-2 rounded-full text-xs font-bold shadow-xl z-[100] animate-bounce">
@@ -241,48 +1317,17 @@ const App: React.FC = () => {
         {/* Library Sidebar Overlay */}
         {showLibrary && (
           <div className="absolute inset-0 z-40 p-6 pointer-events-none">
-            <div className="bg-white/95 backdrop-blur shadow-2xl rounded-2xl w-full md:w-96 h-full max-h-[80vh] border border-slate-200 flex flex-col pointer-events-auto animate-in slide-in-from-left duration-300">
-              <div className="p-4 border-b border-slate-100 flex justify-between items-center">
-                <h3 className="font-bold text-slate-700 uppercase tracking-widest text-xs">Quest Vault</h3>
-                <button onClick={() => setShowLibrary(false)} className="text-slate-400 hover:text-slate-600">
-                  <i className="fas fa-times"></i>
-                </button>
-              </div>
-              <div className="flex-1 overflow-y-auto p-4 custom-scrollbar">
-                {library.length === 0 ? (
-                  <div className="flex flex-col items-center justify-center h-full text-slate-400 text-center">
-                    <i className="fas fa-book-open text-4xl mb-4 opacity-20"></i>
-                    <p className="text-sm font-medium">Your library is empty.</p>
-                  </div>
-                ) : (
-                  <div className="grid gap-3">
-                    {library.map(book => (
-                      <div 
-                        key={book.id} 
-                        onClick={() => loadBook(book)}
-                        className="group relative flex gap-3 p-3 bg-slate-50 rounded-xl border border-slate-200 cursor-pointer hover:border-indigo-400 hover:shadow-md transition-all"
-                      >
-                        <div className="w-14 h-14 rounded-lg overflow-hidden bg-slate-200 shrink-0">
-                          <img src={book.pages[0].imageUrl} alt="Quest" className="w-full h-full object-cover" />
-                        </div>
-                        <div className="flex-1 min-w-0">
-                          <h4 className="font-bold text-slate-700 truncate text-xs">{book.title}</h4>
-                          <p className="text-[9px] text-slate-400 uppercase tracking-widest mt-1">
-                            {book.pages.length} Pages • {new Date(book.createdAt).toLocaleDateString()}
-                          </p>
-                        </div>
-                        <button 
-                          onClick={(e) => deleteBook(book.id, e)}
-                          className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 p-2 text-slate-300 hover:text-red-500 transition-opacity"
-                        >
-                          <i className="fas fa-trash-alt text-xs"></i>
-                        </button>
-                      </div>
-                    ))}
-                  </div>
-                )}
-              </div>
-            </div>
+            <LibraryPanel
+              books={library}
+              storage={storageUsage}
+              onOpen={(book) => openBook(book)}
+              onExport={exportBook}
+              onDuplicate={duplicateBook}
+              onSaveDetails={saveBookDetails}
+              onDelete={deleteBooks}
+              onImport={handleImportBook}
+              onClose={() => setShowLibrary(false)}
+            />
           </div>
         )}
 
@@ -290,17 +1335,18 @@ const App: React.FC = () => {
         {status !== AppStatus.SUCCESS && status !== AppStatus.GENERATING && (
           <div className="w-full md:w-96 flex flex-col space-y-6 shrink-0">
             <div className="bg-white p-6 rounded-2xl shadow-xl border border-slate-200">
-              <section className="mb-6">
+              <section ref={castSectionRef} className="mb-6">
                 <h2 className="text-sm font-bold mb-4 flex items-center gap-2 text-slate-600 uppercase tracking-widest">
                   <i className="fas fa-user-ninja text-indigo-500"></i>
-                  1. The Target
+                  1. The Cast
                 </h2>
-                <ImageUploader 
-                  onImageSelect={(img) => {
-                    setSelectedImage(img);
+                <CastEditor
+                  cast={cast}
+                  settings={sceneSettings}
+                  onChange={(update) => {
+                    setCast(update);
                     setError(null);
-                  }} 
-                  selectedImage={selectedImage} 
+                  }}
                 />
               </section>
               
@@ -313,12 +1359,24 @@ const App: React.FC = () => {
                   <div>
                     <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Adventure Theme</label>
                     <textarea
+                      ref={sceneryInputRef}
                       value={scenery}
                       onChange={(e) => setScenery(e.target.value)}
                       placeholder="e.g. Victorian London, Martian Outpost, Jurassic Jungle..."
                       className="w-full h-20 p-3 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-400 focus:border-transparent resize-none text-sm bg-slate-50 transition-all placeholder:text-slate-300"
                     />
                   </div>
+                  <button
+                    onClick={() => setStoryMode(on => !on)}
+                    className={`w-full p-3 rounded-xl border text-left flex items-center gap-3 transition-all ${storyMode ? 'border-indigo-400 bg-indigo-50' : 'border-slate-200 hover:border-indigo-200'}`}
+                  >
+                    <i className={`fas fa-book-open ${storyMode ? 'text-indigo-500' : 'text-slate-300'}`}></i>
+                    <span className="flex-1">
+                      <span className={`block text-xs font-bold ${storyMode ? 'text-indigo-700' : 'text-slate-600'}`}>Story Mode</span>
+                      <span className="block text-[10px] text-slate-400">Link the pages into a narrated adventure with its own title</span>
+                    </span>
+                    <i className={`fas ${storyMode ? 'fa-toggle-on text-indigo-500' : 'fa-toggle-off text-slate-300'} text-xl`}></i>
+                  </button>
                   <div>
                     <div className="flex justify-between items-center mb-2">
                       <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-wider">Book Length</label>
@@ -334,6 +1392,14 @@ const App: React.FC = () => {
                 </div>
               </section>
 
+              <section className="mb-8">
+                <h2 className="text-sm font-bold mb-4 flex items-center gap-2 text-slate-600 uppercase tracking-widest">
+                  <i className="fas fa-sliders text-emerald-500"></i>
+                  3. The Challenge
+                </h2>
+                <SceneSettingsPanel settings={sceneSettings} onChange={updateSceneSettings} />
+              </section>
+
               <button
                 onClick={handleGenerate}
                 disabled={status === AppStatus.GENERATING}
@@ -344,9 +1410,23 @@ const App: React.FC = () => {
               </button>
 
               {error && (
-                <p className="mt-4 text-red-500 text-xs font-bold bg-red-50 p-3 rounded-lg border border-red-100 text-center animate-shake">
-                  {error}
-                </p>
+                <div className="mt-4 text-xs bg-red-50 p-3 rounded-lg border border-red-100 text-center animate-shake">
+                  <p className="text-red-500 font-bold">{error.message}</p>
+                  {error.recovery && (
+                    <>
+                      <p className="mt-2 text-slate-500">{RECOVERY_HINTS[error.recovery].hint}</p>
+                      {RECOVERY_HINTS[error.recovery].action && (
+                        <button
+                          onClick={() => recoverFromError(error.recovery!)}
+                          className="mt-3 px-4 py-2 bg-white border border-red-200 text-red-600 rounded-lg font-bold hover:bg-red-100 transition-colors"
+                        >
+                          <i className={`fas ${RECOVERY_HINTS[error.recovery].icon} mr-2`}></i>
+                          {RECOVERY_HINTS[error.recovery].action}
+                        </button>
+                      )}
+                    </>
+                  )}
+                </div>
               )}
             </div>
             
@@ -372,9 +1452,9 @@ const App: React.FC = () => {
                 <p className="text-indigo-600 font-bold mb-6 uppercase tracking-widest text-xs">AI-Powered Search & Find Books</p>
                 <div className="max-w-md bg-slate-50/80 p-6 rounded-2xl border border-slate-100">
                   <ul className="text-left text-xs text-slate-500 space-y-3">
-                    <li className="flex gap-3"><i className="fas fa-check-circle text-emerald-500"></i> Upload a photo of yourself or a friend</li>
+                    <li className="flex gap-3"><i className="fas fa-check-circle text-emerald-500"></i> Upload photos of up to six heroes - family, friends or a whole class</li>
                     <li className="flex gap-3"><i className="fas fa-check-circle text-emerald-500"></i> Describe any world you can imagine</li>
-                    <li className="flex gap-3"><i className="fas fa-check-circle text-emerald-500"></i> We'll hide you in a custom illustrated crowd!</li>
+                    <li className="flex gap-3"><i className="fas fa-check-circle text-emerald-500"></i> We'll hide everyone in a custom illustrated crowd!</li>
                   </ul>
                 </div>
               </div>
@@ -391,7 +1471,7 @@ const App: React.FC = () => {
                   </div>
                   
                   <div className="flex justify-between items-end mb-2">
-                    <span className="text-xs font-bold text-indigo-600 uppercase tracking-widest animate-pulse">{loadingMessages[loadingStep]}</span>
+                    <span className="text-xs font-bold text-indigo-600 uppercase tracking-widest animate-pulse">{preparationStep ?? loadingMessages[loadingStep]}</span>
                     <span className="text-[10px] font-bold text-slate-400">{progressPercentage}%</span>
                   </div>
                   <div className="w-full h-2 bg-slate-100 rounded-full overflow-hidden">
@@ -400,9 +1480,17 @@ const App: React.FC = () => {
                       style={{ width: `${progressPercentage}%` }}
                     ></div>
                   </div>
-                  <p className="mt-8 text-slate-400 font-medium text-xs">
-                    Generating Page {pagesCompleted + 1} of {pageCount}
+                  <p className="mt-8 mb-4 text-slate-400 font-medium text-xs">
+                    {pagesCompleted} of {pageSlots.length} pages ready
                   </p>
+                  <PageSlotList slots={pageSlots} />
+                  <button
+                    onClick={cancelGeneration}
+                    className="mt-8 px-4 py-2 rounded-lg text-xs font-bold bg-slate-100 text-slate-600 hover:bg-slate-200"
+                  >
+                    <i className="fas fa-stop mr-2"></i>
+                    {pagesCompleted > 0 ? `Stop and keep ${pagesCompleted} page${pagesCompleted === 1 ? '' : 's'}` : 'Cancel'}
+                  </button>
                 </div>
               </div>
             )}
@@ -416,18 +1504,32 @@ const App: React.FC = () => {
                    <div className="bg-white/80 backdrop-blur border-b border-slate-200/50 p-3 flex justify-between items-center z-20 absolute top-0 left-0 right-0">
                     <div className="flex items-center gap-3">
                       <span className="bg-slate-800 text-white text-[9px] px-2 py-1 rounded font-bold uppercase">Page {currentPage + 1}</span>
-                      <h4 className="text-xs font-bold text-slate-600 truncate max-w-[150px]">{scenery}</h4>
+                      <h4 className="text-xs font-bold text-slate-600 truncate max-w-[150px]">{bookTitle ?? scenery}</h4>
+                      {status === AppStatus.SUCCESS && !currentAnswerKey && (
+                        <span className="text-[9px] font-bold text-indigo-400 uppercase tracking-widest animate-pulse">
+                          <i className="fas fa-spinner fa-spin mr-1"></i> Studying page...
+                        </span>
+                      )}
                     </div>
                     <div className="flex gap-1">
+                      {status === AppStatus.SUCCESS && !isJobRunning && !challenge && (
+                        <button
+                          onClick={() => setIsEditingPages(editing => !editing)}
+                          className={`h-7 px-2 rounded-lg flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-widest border active:scale-90 ${isEditingPages ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200'}`}
+                        >
+                          <i className="fas fa-pen-to-square"></i>
+                          <span className="hidden sm:inline">Pages</span>
+                        </button>
+                      )}
                       <button 
-                        disabled={currentPage === 0}
+                        disabled={currentPage === 0 || isPageLocked}
                         onClick={() => setCurrentPage(p => p - 1)}
                         className="w-7 h-7 rounded-lg flex items-center justify-center bg-white text-slate-600 border border-slate-200 disabled:opacity-30 active:scale-90"
                       >
                         <i className="fas fa-chevron-left text-xs"></i>
                       </button>
                       <button 
-                        disabled={currentPage === pages.length - 1}
+                        disabled={currentPage === pages.length - 1 || isPageLocked}
                         onClick={() => setCurrentPage(p => p + 1)}
                         className="w-7 h-7 rounded-lg flex items-center justify-center bg-white text-slate-600 border border-slate-200 disabled:opacity-30 active:scale-90"
                       >
@@ -436,47 +1538,99 @@ const App: React.FC = () => {
                     </div>
                   </div>
 
+                  {challenge && (
+                    <ChallengeOverlay
+                      run={challenge}
+                      board={boardEntries(leaderboard, challenge.scope, challenge.scope === 'page' ? challenge.pageIndex + 1 : undefined)}
+                      latestEntry={latestEntry}
+                      onCountdownDone={startChallengeClock}
+                      onNextTurn={nextChallengeTurn}
+                      onPlayAgain={replayChallenge}
+                      onQuit={quitChallenge}
+                    />
+                  )}
+
+                  {/* Partial Book Banner */}
+                  {status === AppStatus.SUCCESS && (isJobRunning || unfinishedSlots > 0) && (
+                    <div className="absolute top-16 left-1/2 -translate-x-1/2 z-30 bg-white/95 backdrop-blur rounded-2xl shadow-xl border border-slate-200 p-3 flex flex-col items-center gap-2 max-w-[90%]">
+                      <PageSlotList slots={pageSlots} />
+                      {isJobRunning ? (
+                        <button onClick={cancelGeneration} className="text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-slate-700">
+                          <i className="fas fa-stop mr-1"></i> Stop
+                        </button>
+                      ) : (
+                        <button onClick={retryUnfinishedPages} className="text-[10px] font-bold uppercase tracking-widest text-indigo-600 hover:text-indigo-800">
+                          <i className="fas fa-rotate-right mr-1"></i> Retry {unfinishedSlots} missing page{unfinishedSlots === 1 ? '' : 's'}
+                        </button>
+                      )}
+                    </div>
+                  )}
+
                   <div className="flex-1 relative flex items-center justify-center p-4 md:p-10 pt-16">
                     <div className="relative w-full h-full max-w-5xl bg-white shadow-2xl rounded-xl overflow-hidden border-[12px] border-white ring-1 ring-slate-200/50">
-                      <img 
-                        key={currentPage}
-                        src={pages[currentPage]?.imageUrl} 
-                        className="w-full h-full object-contain"
-                        alt={`Quest Page ${currentPage + 1}`}
-                      />
-
-                      {/* Found Hint Box */}
-                      {hintBox && (
-                        <div 
-                          className="absolute pointer-events-none"
-                          style={{
-                            top: `${hintBox[0] / 10}%`,
-                            left: `${hintBox[1] / 10}%`,
-                            width: `${(hintBox[3] - hintBox[1]) / 10}%`,
-                            height: `${(hintBox[2] - hintBox[0]) / 10}%`,
-                            border: '4px solid #6366f1',
-                            borderRadius: '50%',
-                            boxShadow: '0 0 0 9999px rgba(0,0,0,0.4)',
-                            zIndex: 50,
-                            transition: 'all 0.5s cubic-bezier(0.175, 0.885, 0.32, 1.275)'
-                          }}
+                      {pages[currentPage]?.difference ? (
+                        <DifferenceViewer
+                          key={currentPage}
+                          original={pages[currentPage].imageUrl}
+                          altered={pages[currentPage].difference!.alteredImageUrl}
+                          alt={`Quest Page ${currentPage + 1}`}
+                          onTap={pageTapHandler}
+                          onHover={pageHoverHandler}
                         >
-                          <div className="absolute -top-10 left-1/2 -translate-x-1/2 bg-indigo-600 text-white text-[9px] font-bold px-3 py-1.5 rounded-full whitespace-nowrap shadow-xl">
-                            <i className="fas fa-bullseye mr-2"></i> TARGET SPOTTED
-                          </div>
+                          {pageOverlays}
+                        </DifferenceViewer>
+                      ) : (
+                        <PageViewer
+                          key={currentPage}
+                          src={pages[currentPage]?.imageUrl}
+                          alt={`Quest Page ${currentPage + 1}`}
+                          onTap={pageTapHandler}
+                          onHover={pageHoverHandler}
+                        >
+                          {pageOverlays}
+                        </PageViewer>
+                      )}
+
+                      {/* Story Caption */}
+                      {pages[currentPage]?.caption && (
+                        <div className="absolute bottom-3 left-3 right-3 md:right-auto md:max-w-lg pointer-events-none z-10 bg-white/90 backdrop-blur rounded-xl shadow-lg border border-slate-200 px-4 py-2">
+                          <p className="text-xs text-slate-700 leading-relaxed">
+                            <span className="font-bold text-indigo-600">Page {currentPage + 1}:</span> {pages[currentPage].caption}
+                          </p>
                         </div>
                       )}
                     </div>
                   </div>
 
+                  {/* Page Editor */}
+                  {isEditingPages && status === AppStatus.SUCCESS && !isJobRunning && (
+                    <div className="bg-white/95 backdrop-blur border-t border-slate-200 z-20">
+                      <PageStrip
+                        pages={pages}
+                        currentPage={currentPage}
+                        onSelect={setCurrentPage}
+                        onMove={movePage}
+                        onRegenerate={(index) => pages[index].difference ? makeDifferencePage(index) : openPageEdit(index)}
+                        onDelete={deletePage}
+                        onAdd={() => openPageEdit(null)}
+                        onMakeDifference={makeDifferencePage}
+                        canGenerate={cast.length > 0}
+                        busyIndex={differenceSource}
+                      />
+                    </div>
+                  )}
+
                   {/* Mobile Found Toggle (Floating) */}
                   <div className="lg:hidden absolute bottom-4 right-4 flex flex-col gap-2 z-30">
                      <button 
-                        onClick={handleLocateMe}
-                        disabled={isLocating}
+                        onClick={() => {
+                          const target = nextHintTarget();
+                          if (target) handleHint(target);
+                        }}
+                        disabled={locatingHint !== null || !nextHintTarget()}
                         className="w-12 h-12 bg-indigo-600 text-white rounded-full shadow-xl flex items-center justify-center active:scale-90 transition-all disabled:bg-slate-400"
                      >
-                       {isLocating ? <i className="fas fa-spinner fa-spin"></i> : <i className="fas fa-eye"></i>}
+                       {locatingHint !== null ? <i className="fas fa-spinner fa-spin"></i> : <i className="fas fa-lightbulb"></i>}
                      </button>
                   </div>
                 </div>
@@ -485,48 +1639,68 @@ const App: React.FC = () => {
                 <div className="w-full lg:w-72 bg-white border-l border-slate-100 flex flex-col z-30 shadow-[-10px_0_15px_-3px_rgba(0,0,0,0.05)]">
                   <div className="p-4 border-b border-slate-50 bg-slate-50/50">
                     <h3 className="text-xs font-bold text-slate-800 uppercase tracking-widest flex items-center gap-2">
-                      <i className="fas fa-tasks text-indigo-500"></i>
-                      Quest List
+                      <i className={`fas ${isDifferencePage ? 'fa-clone' : 'fa-tasks'} text-indigo-500`}></i>
+                      {isDifferencePage ? 'Differences' : 'Quest List'}
                     </h3>
                   </div>
                   
                   <div className="flex-1 overflow-y-auto p-4 space-y-3 custom-scrollbar">
-                    {/* The Main Hero (Always first) */}
-                    <div className="p-3 bg-indigo-50 rounded-xl border border-indigo-100 relative group overflow-hidden">
-                       <div className="flex items-start gap-3 relative z-10">
-                          <div className="w-10 h-10 rounded-lg bg-indigo-200 overflow-hidden shrink-0 border border-indigo-300">
-                             <img src={selectedImage || ''} className="w-full h-full object-cover grayscale-[50%]" />
-                          </div>
-                          <div className="flex-1">
-                            <h5 className="text-[10px] font-bold text-indigo-900 leading-tight">THE HERO</h5>
-                            <p className="text-[9px] text-indigo-600 mt-0.5">Find the cartoon version of yourself!</p>
-                          </div>
-                          <button 
-                            onClick={handleLocateMe}
-                            disabled={isLocating}
-                            className={`w-6 h-6 rounded-full flex items-center justify-center transition-all ${hintBox ? 'bg-indigo-600 text-white' : 'bg-indigo-100 text-indigo-500 hover:bg-indigo-200'}`}
-                          >
-                            <i className={`fas ${isLocating ? 'fa-spinner fa-spin' : hintBox ? 'fa-check' : 'fa-search'} text-[10px]`}></i>
-                          </button>
-                       </div>
-                    </div>
+                    {/* The Cast (Always first) */}
+                    {!isDifferencePage && cast.map((hero, i) => (
+                      <div key={`hero-${i}`} className={`p-3 rounded-xl border relative group overflow-hidden ${currentProgress?.heroesFound[i] ? 'bg-indigo-100 border-indigo-300' : 'bg-indigo-50 border-indigo-100'}`}>
+                         <div className="flex items-start gap-3 relative z-10">
+                            <div className="w-10 h-10 rounded-lg bg-indigo-200 overflow-hidden shrink-0 border border-indigo-300">
+                               <img src={hero.sheet ?? hero.image} className="w-full h-full object-cover bg-white" />
+                            </div>
+                            <div className="flex-1 min-w-0">
+                              <h5 className="text-[10px] font-bold text-indigo-900 leading-tight uppercase truncate">{hero.name}</h5>
+                              <p className="text-[9px] text-indigo-600 mt-0.5">{currentProgress?.heroesFound[i] ? `Found ${hero.name}!` : `Tap the cartoon ${hero.name}!`}</p>
+                            </div>
+                            <button 
+                              onClick={() => handleHint({ kind: 'hero', index: i })}
+                              disabled={locatingHint !== null || currentProgress?.heroesFound[i]}
+                              title={hintButtonTitle({ kind: 'hero', index: i })}
+                              className={`w-6 h-6 rounded-full flex items-center justify-center transition-all ${currentProgress?.heroesFound[i] ? 'bg-indigo-600 text-white' : 'bg-indigo-100 text-indigo-500 hover:bg-indigo-200'}`}
+                            >
+                              <i className={`fas ${currentProgress?.heroesFound[i] ? 'fa-check' : locatingHint && sameTarget(locatingHint, { kind: 'hero', index: i }) ? 'fa-spinner fa-spin' : 'fa-lightbulb'} text-[10px]`}></i>
+                            </button>
+                         </div>
+                      </div>
+                    ))}
 
-                    <div className="py-2 border-b border-slate-50">
-                       <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Themed Challenges</p>
-                    </div>
+                    {!isDifferencePage && (
+                      <div className="py-2 border-b border-slate-50">
+                         <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Themed Challenges</p>
+                      </div>
+                    )}
 
                     {pages[currentPage]?.questItems.map((item, i) => (
                       <div 
                         key={`${currentPage}-${i}`}
-                        onClick={() => toggleItemFound(item)}
-                        className={`p-3 rounded-xl border transition-all cursor-pointer flex items-center gap-3 ${foundItems[item] ? 'bg-emerald-50 border-emerald-100 opacity-60' : 'bg-white border-slate-100 hover:border-indigo-200 hover:shadow-sm'}`}
+                        onClick={() => toggleItemFound(i)}
+                        title={canTickItem(i) ? "We couldn't pin this one down - tick it off yourself when you spot it." : undefined}
+                        className={`p-3 rounded-xl border transition-all flex items-center gap-3 ${canTickItem(i) ? 'cursor-pointer' : ''} ${currentProgress?.itemsFound[i] ? 'bg-emerald-50 border-emerald-100 opacity-60' : 'bg-white border-slate-100 hover:border-indigo-200 hover:shadow-sm'}`}
                       >
-                         <div className={`w-5 h-5 rounded-full flex items-center justify-center shrink-0 border ${foundItems[item] ? 'bg-emerald-500 border-emerald-500 text-white' : 'border-slate-200 text-slate-300'}`}>
-                            <i className={`fas ${foundItems[item] ? 'fa-check' : 'fa-circle'} text-[8px]`}></i>
+                         <div className={`w-5 h-5 rounded-full flex items-center justify-center shrink-0 border ${currentProgress?.itemsFound[i] ? 'bg-emerald-500 border-emerald-500 text-white' : 'border-slate-200 text-slate-300'}`}>
+                            <i className={`fas ${currentProgress?.itemsFound[i] ? 'fa-check' : 'fa-circle'} text-[8px]`}></i>
                          </div>
-                         <span className={`text-[11px] font-medium leading-tight ${foundItems[item] ? 'text-emerald-700 line-through' : 'text-slate-600'}`}>
-                           {item}
+                         <span className={`flex-1 text-[11px] font-medium leading-tight ${currentProgress?.itemsFound[i] ? 'text-emerald-700 line-through' : 'text-slate-600'}`}>
+                           {/* A change is only described once found, or the list would give it away. */}
+                           {isDifferencePage && !currentProgress?.itemsFound[i] ? `Difference ${i + 1}` : item}
                          </span>
+                         {currentAnswerKey?.items[i] && !currentProgress?.itemsFound[i] && (
+                           <button
+                             onClick={(e) => {
+                               e.stopPropagation();
+                               handleHint({ kind: 'item', index: i });
+                             }}
+                             disabled={locatingHint !== null}
+                             title={hintButtonTitle({ kind: 'item', index: i })}
+                             className="w-6 h-6 rounded-full shrink-0 flex items-center justify-center bg-slate-100 text-slate-400 hover:bg-indigo-100 hover:text-indigo-500"
+                           >
+                             <i className={`fas ${locatingHint && sameTarget(locatingHint, { kind: 'item', index: i }) ? 'fa-spinner fa-spin' : 'fa-lightbulb'} text-[10px]`}></i>
+                           </button>
+                         )}
                       </div>
                     ))}
                   </div>
@@ -535,15 +1709,21 @@ const App: React.FC = () => {
                      <div className="flex justify-between items-center mb-2">
                        <span className="text-[9px] font-bold text-slate-400 uppercase">Progress</span>
                        <span className="text-[9px] font-bold text-indigo-600">
-                        {Object.values(foundItems).filter(Boolean).length} / {pages[currentPage]?.questItems.length} FOUND
+                        {currentCompletion.found} / {currentCompletion.total} FOUND
                        </span>
                      </div>
                      <div className="w-full h-1.5 bg-slate-200 rounded-full overflow-hidden">
                        <div 
                         className="h-full bg-indigo-500 transition-all duration-300"
-                        style={{ width: `${(Object.values(foundItems).filter(Boolean).length / (pages[currentPage]?.questItems.length || 1)) * 100}%` }}
+                        style={{ width: `${(currentCompletion.found / (currentCompletion.total || 1)) * 100}%` }}
                        ></div>
                      </div>
+                     {currentProgress && (
+                       <div className="flex justify-between mt-2 text-[9px] font-bold text-slate-400 uppercase">
+                         <span><i className="far fa-clock mr-1"></i>{formatPlayTime(currentProgress.timeSpentMs)}</span>
+                         <span><i className="fas fa-eye mr-1"></i>{currentProgress.hintsUsed} hint{currentProgress.hintsUsed === 1 ? '' : 's'}</span>
+                       </div>
+                     )}
                   </div>
                 </div>
               </div>
@@ -555,11 +1735,11 @@ const App: React.FC = () => {
       {/* Action Footer for Success State */}
       {status === AppStatus.SUCCESS && (
         <div className="fixed bottom-6 left-1/2 -translate-x-1/2 bg-slate-800 text-white px-6 py-3 rounded-2xl shadow-2xl flex items-center gap-6 z-50 animate-in fade-in slide-in-from-bottom duration-500 md:hidden">
-            <button onClick={() => setCurrentPage(p => Math.max(0, p - 1))} className="text-white/70 active:text-white p-2">
+            <button onClick={() => setCurrentPage(p => Math.max(0, p - 1))} disabled={isPageLocked} className="text-white/70 active:text-white p-2 disabled:opacity-30">
               <i className="fas fa-arrow-left"></i>
             </button>
             <span className="text-xs font-bold uppercase tracking-widest">{currentPage + 1} / {pages.length}</span>
-            <button onClick={() => setCurrentPage(p => Math.min(pages.length - 1, p + 1))} className="text-white/70 active:text-white p-2">
+            <button onClick={() => setCurrentPage(p => Math.min(pages.length - 1, p + 1))} disabled={isPageLocked} className="text-white/70 active:text-white p-2 disabled:opacity-30">
               <i className="fas fa-arrow-right"></i>
             </button>
             <div className="w-px h-6 bg-white/20"></div>
@@ -0,0 +1,111 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface CameraCaptureProps {
+  onCapture: (dataUrl: string) => void;
+  onCancel: () => void;
+}
+
+type Facing = 'user' | 'environment';
+
+const describeCameraError = (err: unknown) => {
+  const name = err instanceof DOMException ? err.name : '';
+  if (name === 'NotAllowedError') return "Camera access was blocked. Allow it in your browser settings, or upload a photo instead.";
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return "No camera was found on this device.";
+  if (name === 'NotReadableError') return "The camera is being used by another app.";
+  return "Couldn't start the camera.";
+};
+
+export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [facing, setFacing] = useState<Facing>('user');
+  const [isReady, setIsReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setIsReady(false);
+    setError(null);
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: facing, width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then((media) => {
+        // The dialog may have closed (or the camera been switched) while permission was being asked.
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = media;
+        if (videoRef.current) videoRef.current.srcObject = media;
+      })
+      .catch((err) => {
+        console.error("Camera failed to start", err);
+        if (!cancelled) setError(describeCameraError(err));
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [facing]);
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    onCapture(canvas.toDataURL('image/jpeg', 0.9));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-900/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onCancel}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg p-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="font-bold text-slate-700 uppercase tracking-widest text-xs flex items-center gap-2">
+            <i className="fas fa-camera text-indigo-500"></i> Take a Photo
+          </h3>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div className="relative aspect-[4/3] bg-slate-900 rounded-xl overflow-hidden flex items-center justify-center">
+          {error ? (
+            <p className="text-sm text-white/80 text-center px-6">{error}</p>
+          ) : (
+            <>
+              {/* The selfie camera is mirrored on screen like a mirror; the photo itself isn't. */}
+              <video
+                ref={videoRef}
+                autoPlay
+                playsInline
+                muted
+                onLoadedMetadata={() => setIsReady(true)}
+                className={`w-full h-full object-cover ${facing === 'user' ? '-scale-x-100' : ''}`}
+              />
+              {!isReady && <i className="fas fa-spinner fa-spin text-2xl text-white/60 absolute"></i>}
+            </>
+          )}
+        </div>
+
+        <div className="flex gap-2 mt-4">
+          <button
+            onClick={() => setFacing(prev => prev === 'user' ? 'environment' : 'user')}
+            title="Switch camera"
+            className="w-12 py-3 rounded-xl font-bold text-slate-600 bg-slate-100 hover:bg-slate-200 text-sm"
+          >
+            <i className="fas fa-sync-alt"></i>
+          </button>
+          <button
+            onClick={capture}
+            disabled={!isReady || !!error}
+            className="flex-1 py-3 rounded-xl font-bold text-white shadow-lg bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-400 flex items-center justify-center gap-2 text-sm"
+          >
+            <i className="fas fa-circle"></i> Capture
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Hero, HeroOutfit, SceneSettings } from '../types.ts';
+import { ImageUploader } from './ImageUploader.tsx';
+import { geminiService } from '../services/geminiService.ts';
+import { GenerationError } from '../services/errors.ts';
+import { suggestOutfit } from '../services/promptBuilder.ts';
+
+// More heroes than this crowd each other out of the picture and make them hard to tell apart.
+export const MAX_CAST_SIZE = 6;
+
+interface CastEditorProps {
+  cast: Hero[];
+  // Takes an updater so a character sheet that finishes late can't overwrite edits made meanwhile.
+  onChange: (update: (cast: Hero[]) => Hero[]) => void;
+  // Character sheets are drawn in the book's art style.
+  settings: SceneSettings;
+}
+
+const OUTFIT_FIELDS: { key: keyof HeroOutfit; label: string; placeholder: string }[] = [
+  { key: 'colors', label: 'Colors', placeholder: 'e.g. red and white' },
+  { key: 'hat', label: 'Hat', placeholder: 'e.g. bobble hat' },
+  { key: 'pattern', label: 'Pattern', placeholder: 'e.g. stripes' },
+];
+
+export const CastEditor: React.FC<CastEditorProps> = ({ cast, onChange, settings }) => {
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [designing, setDesigning] = useState<Record<number, boolean>>({});
+
+  const updateHero = (index: number, patch: Partial<Hero>) => {
+    onChange(current => current.map((hero, i) => i === index ? { ...hero, ...patch } : hero));
+  };
+
+  const addHero = (image: string) => {
+    onChange(current => [...current, { name: `Hero ${current.length + 1}`, image, outfit: suggestOutfit(current.length) }]);
+  };
+
+  const removeHero = (index: number) => {
+    onChange(current => current.filter((_, i) => i !== index));
+    setExpanded(null);
+  };
+
+  // A changed outfit makes the old sheet wrong, so it is dropped and redesigned before the next book.
+  const updateOutfit = (index: number, key: keyof HeroOutfit, value: string) => {
+    const outfit = { ...(cast[index].outfit ?? suggestOutfit(index)), [key]: value };
+    updateHero(index, { outfit, sheet: undefined });
+  };
+
+  const designHero = async (index: number) => {
+    const hero = cast[index];
+    setDesigning(prev => ({ ...prev, [index]: true }));
+    try {
+      const sheet = await geminiService.generateCharacterSheet(hero, index, settings, { fresh: !!hero.sheet });
+      // Only keep the sheet if the hero wasn't changed or removed while it was being drawn.
+      onChange(current => current.map((h, i) => i === index && h.image === hero.image && h.outfit === hero.outfit ? { ...h, sheet } : h));
+    } catch (err) {
+      console.error("Character sheet failed", err);
+      alert(err instanceof GenerationError ? err.message : "Couldn't design this hero. Please try again.");
+    } finally {
+      setDesigning(prev => ({ ...prev, [index]: false }));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {cast.map((hero, i) => (
+        <div key={i} className="rounded-xl border border-indigo-100 bg-indigo-50/50">
+          <div className="flex items-center gap-3 p-2">
+            <img src={hero.sheet ?? hero.image} alt={hero.name} className="w-12 h-12 rounded-lg object-cover border border-indigo-200 shrink-0 bg-white" />
+            <input
+              value={hero.name}
+              onChange={(e) => updateHero(i, { name: e.target.value })}
+              placeholder="Name"
+              maxLength={30}
+              className="flex-1 min-w-0 p-2 border border-slate-200 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-400 focus:border-transparent"
+            />
+            <button
+              onClick={() => setExpanded(expanded === i ? null : i)}
+              title="Signature outfit"
+              className={`w-8 h-8 rounded-lg shrink-0 ${expanded === i ? 'bg-indigo-100 text-indigo-600' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}`}
+            >
+              <i className="fas fa-shirt"></i>
+            </button>
+            <button
+              onClick={() => removeHero(i)}
+              disabled={designing[i]}
+              title="Remove from the cast"
+              className="w-8 h-8 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 shrink-0 disabled:opacity-30"
+            >
+              <i className="fas fa-times"></i>
+            </button>
+          </div>
+
+          {expanded === i && (
+            <div className="px-3 pb-3 space-y-2">
+              {OUTFIT_FIELDS.map(field => (
+                <div key={field.key} className="flex items-center gap-2">
+                  <label className="w-14 text-[10px] font-bold text-slate-400 uppercase tracking-wider">{field.label}</label>
+                  <input
+                    value={(hero.outfit ?? suggestOutfit(i))[field.key]}
+                    onChange={(e) => updateOutfit(i, field.key, e.target.value)}
+                    placeholder={field.placeholder}
+                    maxLength={40}
+                    className="flex-1 min-w-0 p-1.5 border border-slate-200 rounded-lg text-xs bg-white focus:ring-2 focus:ring-indigo-400 focus:border-transparent"
+                  />
+                </div>
+              ))}
+
+              {hero.sheet && (
+                <img src={hero.sheet} alt={`${hero.name} character sheet`} className="w-full rounded-lg border border-indigo-100 bg-white" />
+              )}
+              <button
+                onClick={() => designHero(i)}
+                disabled={designing[i]}
+                className="w-full py-2 rounded-lg text-[10px] font-bold uppercase tracking-widest bg-white border border-indigo-200 text-indigo-600 hover:bg-indigo-50 disabled:opacity-50"
+              >
+                <i className={`fas ${designing[i] ? 'fa-spinner fa-spin' : 'fa-wand-magic-sparkles'} mr-2`}></i>
+                {designing[i] ? 'Designing...' : hero.sheet ? 'Redesign Look' : 'Preview Look'}
+              </button>
+              <p className="text-[9px] text-slate-400 text-center">
+                This look is used on every page. It's designed automatically when you forge the book.
+              </p>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {cast.length < MAX_CAST_SIZE && (
+        <ImageUploader onImageSelect={addHero} selectedImage={null} compact={cast.length > 0} />
+      )}
+      {cast.length > 0 && (
+        <p className="text-[10px] text-slate-400 text-center">
+          {cast.length} of {MAX_CAST_SIZE} heroes · everyone is hidden on every page
+        </p>
+      )}
+    </div>
+  );
+};
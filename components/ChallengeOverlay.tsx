@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { LeaderboardEntry } from '../types.ts';
+import { ChallengeRun, COUNTDOWN_SECONDS, HINT_PENALTY_MS, challengeHints } from '../services/challenge.ts';
+import { formatPlayTime } from '../services/progress.ts';
+import { Leaderboard } from './Leaderboard.tsx';
+
+interface ChallengeOverlayProps {
+  run: ChallengeRun;
+  // This challenge's leaderboard board, best first.
+  board: LeaderboardEntry[];
+  // The entry recorded for the turn that just ended.
+  latestEntry?: LeaderboardEntry;
+  onCountdownDone: () => void;
+  onNextTurn: () => void;
+  onPlayAgain: () => void;
+  onQuit: () => void;
+}
+
+const Countdown: React.FC<{ player: string; onDone: () => void }> = ({ player, onDone }) => {
+  const [remaining, setRemaining] = useState(COUNTDOWN_SECONDS);
+
+  useEffect(() => {
+    if (remaining === 0) {
+      const timeout = setTimeout(onDone, 600);
+      return () => clearTimeout(timeout);
+    }
+    const timeout = setTimeout(() => setRemaining(r => r - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [remaining]);
+
+  return (
+    // Opaque, so nobody gets a head start looking at the page.
+    <div className="absolute inset-0 z-40 bg-slate-900 flex flex-col items-center justify-center text-white">
+      <p className="text-xs font-bold uppercase tracking-widest text-indigo-300 mb-4">{player}, get ready!</p>
+      <span key={remaining} className="text-8xl font-bold animate-in zoom-in duration-300">
+        {remaining > 0 ? remaining : 'GO!'}
+      </span>
+    </div>
+  );
+};
+
+const RunningTimer: React.FC<{ run: ChallengeRun; onQuit: () => void }> = ({ run, onQuit }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, []);
+
+  const hints = challengeHints(run);
+  return (
+    <div className="absolute top-16 left-1/2 -translate-x-1/2 z-30 bg-slate-800/95 text-white rounded-full shadow-xl px-4 py-2 flex items-center gap-3">
+      <span className="text-[10px] font-bold uppercase tracking-widest text-indigo-300 truncate max-w-[90px]">{run.players[run.turn]}</span>
+      <span className="font-mono font-bold text-lg">{formatPlayTime(now - run.startedAt)}</span>
+      {hints > 0 && (
+        <span className="text-[10px] font-bold text-amber-300">+{formatPlayTime(hints * HINT_PENALTY_MS)}</span>
+      )}
+      <button onClick={onQuit} title="Quit the challenge" className="text-white/60 hover:text-white text-xs">
+        <i className="fas fa-flag"></i>
+      </button>
+    </div>
+  );
+};
+
+export const ChallengeOverlay: React.FC<ChallengeOverlayProps> = ({
+  run,
+  board,
+  latestEntry,
+  onCountdownDone,
+  onNextTurn,
+  onPlayAgain,
+  onQuit,
+}) => {
+  if (run.phase === 'countdown') {
+    return <Countdown key={run.turn} player={run.players[run.turn]} onDone={onCountdownDone} />;
+  }
+  if (run.phase === 'playing') {
+    return <RunningTimer run={run} onQuit={onQuit} />;
+  }
+
+  const result = run.results[run.results.length - 1];
+  const nextPlayer = run.players[run.turn + 1];
+  const standings = [...run.results].sort((a, b) => a.scoreMs - b.scoreMs);
+
+  return (
+    <div className="absolute inset-0 z-40 bg-slate-900/70 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm p-6 max-h-full overflow-y-auto custom-scrollbar animate-in zoom-in duration-300">
+        <div className="text-center mb-4">
+          <i className="fas fa-trophy text-3xl text-amber-400 mb-2"></i>
+          <h3 className="font-bold text-slate-800">{result.player} found everything!</h3>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 text-center mb-4">
+          <div className="p-2 bg-slate-50 rounded-xl">
+            <p className="text-[9px] font-bold text-slate-400 uppercase">Time</p>
+            <p className="font-mono font-bold text-slate-700">{formatPlayTime(result.timeMs)}</p>
+          </div>
+          <div className="p-2 bg-slate-50 rounded-xl">
+            <p className="text-[9px] font-bold text-slate-400 uppercase">Hints</p>
+            <p className="font-mono font-bold text-amber-500">+{formatPlayTime(result.hintsUsed * HINT_PENALTY_MS)}</p>
+          </div>
+          <div className="p-2 bg-indigo-50 rounded-xl">
+            <p className="text-[9px] font-bold text-indigo-400 uppercase">Score</p>
+            <p className="font-mono font-bold text-indigo-700">{formatPlayTime(result.scoreMs)}</p>
+          </div>
+        </div>
+
+        {nextPlayer ? (
+          <button
+            onClick={onNextTurn}
+            className="w-full py-3 rounded-xl font-bold text-white shadow-lg bg-indigo-600 hover:bg-indigo-700 flex items-center justify-center gap-2 text-sm"
+          >
+            <i className="fas fa-people-arrows"></i> Pass to {nextPlayer}
+          </button>
+        ) : (
+          <>
+            {standings.length > 1 && (
+              <div className="mb-4">
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">This Round</p>
+                <ol className="space-y-1">
+                  {standings.map((entry, i) => (
+                    <li key={i} className="flex items-center gap-2 px-2 py-1.5 rounded-lg text-xs bg-slate-50">
+                      <span className="w-5 text-center font-bold text-slate-400">{i + 1}</span>
+                      <span className="flex-1 min-w-0 truncate font-bold text-slate-700">{entry.player}</span>
+                      <span className="font-mono font-bold text-indigo-600">{formatPlayTime(entry.scoreMs)}</span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Best Times</p>
+            <div className="mb-4 p-2 bg-slate-50 rounded-xl border border-slate-100">
+              <Leaderboard entries={board} highlight={latestEntry} />
+            </div>
+            <div className="flex gap-2">
+              <button onClick={onQuit} className="flex-1 py-3 rounded-xl font-bold text-slate-600 bg-slate-100 hover:bg-slate-200 text-sm">
+                Done
+              </button>
+              <button
+                onClick={onPlayAgain}
+                className="flex-[2] py-3 rounded-xl font-bold text-white shadow-lg bg-indigo-600 hover:bg-indigo-700 flex items-center justify-center gap-2 text-sm"
+              >
+                <i className="fas fa-redo"></i> Play Again
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { ChallengeScope, LeaderboardEntry } from '../types.ts';
+import { HINT_PENALTY_MS, MAX_PLAYERS, boardEntries } from '../services/challenge.ts';
+import { Leaderboard } from './Leaderboard.tsx';
+
+interface ChallengeSetupDialogProps {
+  // Names from the last challenge, so a rematch doesn't need retyping.
+  initialPlayers: string[];
+  currentPage: number;
+  pageCount: number;
+  leaderboard: LeaderboardEntry[];
+  isPreparing: boolean;
+  onStart: (players: string[], scope: ChallengeScope) => void;
+  onCancel: () => void;
+}
+
+export const ChallengeSetupDialog: React.FC<ChallengeSetupDialogProps> = ({
+  initialPlayers,
+  currentPage,
+  pageCount,
+  leaderboard,
+  isPreparing,
+  onStart,
+  onCancel,
+}) => {
+  const [players, setPlayers] = useState<string[]>(initialPlayers.length > 0 ? initialPlayers : ['']);
+  const [scope, setScope] = useState<ChallengeScope>(pageCount > 1 ? 'book' : 'page');
+
+  const names = players.map(name => name.trim()).filter(Boolean);
+  const board = boardEntries(leaderboard, scope, scope === 'page' ? currentPage + 1 : undefined);
+
+  const optionClass = (selected: boolean) =>
+    `flex-1 py-2 px-1 rounded-lg border text-[10px] font-bold transition-all ${selected ? 'border-indigo-400 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-500 hover:border-indigo-200'}`;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={isPreparing ? undefined : onCancel}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md p-6 max-h-[90vh] overflow-y-auto custom-scrollbar" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-bold text-slate-700 uppercase tracking-widest text-xs flex items-center gap-2">
+            <i className="fas fa-stopwatch text-indigo-500"></i> Challenge Mode
+          </h3>
+          {!isPreparing && (
+            <button onClick={onCancel} className="text-slate-400 hover:text-slate-600">
+              <i className="fas fa-times"></i>
+            </button>
+          )}
+        </div>
+
+        <p className="text-[11px] text-slate-500 mb-4 leading-relaxed">
+          Find everything as fast as you can. Each hint adds {HINT_PENALTY_MS / 1000} seconds to your time.
+          With more than one player, everyone takes a turn on this device.
+        </p>
+
+        <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Race Through</label>
+        <div className="flex gap-2 mb-4">
+          <button onClick={() => setScope('page')} className={optionClass(scope === 'page')}>
+            <i className="fas fa-file-image mr-1"></i> Page {currentPage + 1}
+          </button>
+          <button onClick={() => setScope('book')} className={optionClass(scope === 'book')}>
+            <i className="fas fa-book-open mr-1"></i> Whole Book ({pageCount})
+          </button>
+        </div>
+
+        <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Players</label>
+        <div className="space-y-2 mb-2">
+          {players.map((name, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <span className="w-5 text-[10px] font-bold text-slate-400 text-center">{i + 1}</span>
+              <input
+                value={name}
+                onChange={(e) => setPlayers(prev => prev.map((n, j) => j === i ? e.target.value : n))}
+                placeholder={`Player ${i + 1}`}
+                maxLength={20}
+                autoFocus={i === players.length - 1}
+                className="flex-1 min-w-0 p-2 border border-slate-200 rounded-lg text-sm bg-slate-50 focus:ring-2 focus:ring-indigo-400 focus:border-transparent"
+              />
+              <button
+                onClick={() => setPlayers(prev => prev.filter((_, j) => j !== i))}
+                disabled={players.length === 1}
+                title="Remove player"
+                className="w-8 h-8 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 shrink-0 disabled:opacity-30"
+              >
+                <i className="fas fa-times"></i>
+              </button>
+            </div>
+          ))}
+        </div>
+        {players.length < MAX_PLAYERS && (
+          <button
+            onClick={() => setPlayers(prev => [...prev, ''])}
+            className="w-full py-2 mb-4 rounded-lg border border-dashed border-slate-300 text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:border-indigo-300 hover:text-indigo-500"
+          >
+            <i className="fas fa-user-plus mr-1"></i> Add Player
+          </button>
+        )}
+
+        <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Best Times</label>
+        <div className="mb-4 p-2 bg-slate-50 rounded-xl border border-slate-100">
+          <Leaderboard entries={board} />
+        </div>
+
+        <button
+          onClick={() => onStart(names, scope)}
+          disabled={isPreparing || names.length === 0}
+          className="w-full py-3 rounded-xl font-bold text-white shadow-lg bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-400 flex items-center justify-center gap-2 text-sm"
+        >
+          <i className={`fas ${isPreparing ? 'fa-spinner fa-spin' : 'fa-flag-checkered'}`}></i>
+          <span>{isPreparing ? 'Getting the pages ready...' : 'Start'}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { PageViewer } from './PageViewer.tsx';
+import { NormalizedPoint } from '../utils/geometry.ts';
+
+interface DifferenceViewerProps {
+  original: string;
+  altered: string;
+  alt: string;
+  onTap?: (point: NormalizedPoint) => void;
+  onHover?: (point: NormalizedPoint | null) => void;
+  // Overlays drawn over both pictures, positioned as for PageViewer.
+  children?: React.ReactNode;
+}
+
+type Layout = 'side-by-side' | 'flicker';
+
+// How long each picture stays up in flicker mode; fast enough that changes seem to blink.
+const FLICKER_MS = 700;
+
+export const DifferenceViewer: React.FC<DifferenceViewerProps> = ({ original, altered, alt, onTap, onHover, children }) => {
+  const [layout, setLayout] = useState<Layout>('side-by-side');
+  const [showAltered, setShowAltered] = useState(false);
+
+  useEffect(() => {
+    if (layout !== 'flicker') return;
+    const interval = setInterval(() => setShowAltered(prev => !prev), FLICKER_MS);
+    return () => clearInterval(interval);
+  }, [layout]);
+
+  const layoutButton = (value: Layout, icon: string, label: string) => (
+    <button
+      onClick={() => setLayout(value)}
+      className={`h-7 px-2 rounded-lg flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-widest border active:scale-90 ${layout === value ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200'}`}
+    >
+      <i className={`fas ${icon}`}></i>
+      <span className="hidden sm:inline">{label}</span>
+    </button>
+  );
+
+  return (
+    <div className="relative w-full h-full">
+      {layout === 'side-by-side' ? (
+        <div className="w-full h-full flex flex-col md:flex-row gap-2">
+          <div className="flex-1 min-h-0 min-w-0">
+            <PageViewer src={original} alt={`${alt} (original)`} onTap={onTap} onHover={onHover}>{children}</PageViewer>
+          </div>
+          <div className="flex-1 min-h-0 min-w-0">
+            <PageViewer src={altered} alt={`${alt} (changed)`} onTap={onTap} onHover={onHover}>{children}</PageViewer>
+          </div>
+        </div>
+      ) : (
+        <PageViewer src={showAltered ? altered : original} alt={alt} onTap={onTap} onHover={onHover}>{children}</PageViewer>
+      )}
+
+      <div className="absolute bottom-3 right-3 flex gap-1 z-40">
+        {layoutButton('side-by-side', 'fa-table-columns', 'Side by Side')}
+        {layoutButton('flicker', 'fa-clone', 'Flicker')}
+      </div>
+    </div>
+  );
+};
@@ -1,71 +1,76 @@
 
-import React, { useRef, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { BoundingBox } from '../types.ts';
+import { cropImage, readImageFile } from '../services/media.ts';
+import { CameraCapture } from './CameraCapture.tsx';
+import { PhotoCropDialog } from './PhotoCropDialog.tsx';
 
 interface ImageUploaderProps {
   onImageSelect: (base64: string) => void;
   selectedImage: string | null;
+  // A slim "add another" button instead of the full drop zone.
+  compact?: boolean;
 }
 
-export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect, selectedImage }) => {
+export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect, selectedImage, compact = false }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [showCamera, setShowCamera] = useState(false);
+  // A photo waiting to be cropped.
+  const [photo, setPhoto] = useState<string | null>(null);
+  const hasCamera = typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
 
-  const resizeAndCompress = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = (event) => {
-        const img = new Image();
-        img.src = event.target?.result as string;
-        img.onload = () => {
-          const canvas = document.createElement('canvas');
-          let width = img.width;
-          let height = img.height;
-
-          // Max dimension for Gemini to ensure fast upload and avoid payload limits
-          const MAX_WIDTH = 1200;
-          const MAX_HEIGHT = 1200;
+  const openFile = async (file: File) => {
+    setIsProcessing(true);
+    try {
+      setPhoto(await readImageFile(file));
+    } catch (err) {
+      console.error("Image processing failed", err);
+      alert("Could not process image. Try another one!");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
 
-          if (width > height) {
-            if (width > MAX_WIDTH) {
-              height *= MAX_WIDTH / width;
-              width = MAX_WIDTH;
-            }
-          } else {
-            if (height > MAX_HEIGHT) {
-              width *= MAX_HEIGHT / height;
-              height = MAX_HEIGHT;
-            }
-          }
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) openFile(file);
+  };
 
-          canvas.width = width;
-          canvas.height = height;
-          const ctx = canvas.getContext('2d');
-          ctx?.drawImage(img, 0, 0, width, height);
-          
-          // Export as high quality JPEG to save space
-          const dataUrl = canvas.toDataURL('image/jpeg', 0.85);
-          resolve(dataUrl);
-        };
-        img.onerror = reject;
-      };
-      reader.onerror = reject;
-    });
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = Array.from(e.dataTransfer.files as FileList).find(f => f.type.startsWith('image/'));
+    if (file) openFile(file);
+    else alert("That isn't a photo. Try dropping an image file!");
   };
 
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setIsProcessing(true);
-      try {
-        const processedBase64 = await resizeAndCompress(file);
-        onImageSelect(processedBase64);
-      } catch (err) {
-        console.error("Image processing failed", err);
-        alert("Could not process image. Try another one!");
-      } finally {
-        setIsProcessing(false);
-      }
+  // A pasted image anywhere on the page is taken as a hero photo; pasted text is left alone.
+  useEffect(() => {
+    if (photo || showCamera) return;
+    const handlePaste = (e: ClipboardEvent) => {
+      const file = Array.from(e.clipboardData?.files ?? []).find(f => f.type.startsWith('image/'));
+      if (!file) return;
+      e.preventDefault();
+      openFile(file);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [photo, showCamera]);
+
+  const handleCrop = async (crop: BoundingBox) => {
+    if (!photo) return;
+    setIsProcessing(true);
+    try {
+      onImageSelect(await cropImage(photo, crop));
+      setPhoto(null);
+    } catch (err) {
+      console.error("Image cropping failed", err);
+      alert("Could not crop the photo. Try another one!");
+    } finally {
+      setIsProcessing(false);
     }
   };
 
@@ -73,23 +78,48 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect, sel
     <div className="flex flex-col items-center space-y-4 w-full">
       <div 
         onClick={() => fileInputRef.current?.click()}
-        className={`w-full h-48 border-2 border-dashed rounded-xl flex flex-col items-center justify-center cursor-pointer transition-all hover:bg-white/50 active:scale-[0.98] ${selectedImage ? 'border-indigo-400 bg-indigo-50' : 'border-gray-300 bg-white'}`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`w-full ${compact ? 'h-14' : 'h-48'} border-2 border-dashed rounded-xl flex flex-col items-center justify-center cursor-pointer transition-all hover:bg-white/50 active:scale-[0.98] ${isDragging ? 'border-indigo-500 bg-indigo-100' : selectedImage ? 'border-indigo-400 bg-indigo-50' : 'border-gray-300 bg-white'}`}
       >
-        {isProcessing ? (
+        {isProcessing && compact ? (
+          <i className="fas fa-spinner fa-spin text-indigo-500"></i>
+        ) : isProcessing ? (
           <div className="flex flex-col items-center animate-pulse">
             <i className="fas fa-spinner fa-spin text-3xl text-indigo-500 mb-2"></i>
             <p className="text-indigo-600 font-bold text-xs uppercase tracking-widest">Optimizing...</p>
           </div>
+        ) : isDragging ? (
+          <p className="text-indigo-600 font-bold text-sm flex items-center gap-2">
+            <i className="fas fa-hand-holding"></i> Drop the photo here
+          </p>
+        ) : compact ? (
+          <p className="text-gray-500 font-medium text-sm flex items-center gap-2">
+            <i className="fas fa-user-plus text-gray-400"></i> Add Another Hero
+          </p>
         ) : selectedImage ? (
           <img src={selectedImage} alt="Target" className="h-full w-full object-contain p-2" />
         ) : (
           <div className="text-center p-4">
             <i className="fas fa-camera text-4xl text-gray-400 mb-2"></i>
             <p className="text-gray-500 font-medium">Upload Hero Photo</p>
-            <p className="text-gray-400 text-sm">Target character face</p>
+            <p className="text-gray-400 text-sm">Drop, paste, or tap to browse</p>
           </div>
         )}
       </div>
+      {hasCamera && (
+        <button
+          onClick={() => setShowCamera(true)}
+          disabled={isProcessing}
+          className={`w-full ${compact ? '-mt-2' : ''} py-2 rounded-xl text-[10px] font-bold uppercase tracking-widest text-indigo-500 bg-indigo-50 hover:bg-indigo-100 disabled:opacity-50 flex items-center justify-center gap-2`}
+        >
+          <i className="fas fa-camera"></i> Use the Camera
+        </button>
+      )}
       {/* Standard file input with better iOS support attributes */}
       <input 
         type="file" 
@@ -98,6 +128,23 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect, sel
         accept="image/*"
         className="hidden" 
       />
+      {showCamera && (
+        <CameraCapture
+          onCapture={(dataUrl) => {
+            setShowCamera(false);
+            setPhoto(dataUrl);
+          }}
+          onCancel={() => setShowCamera(false)}
+        />
+      )}
+      {photo && (
+        <PhotoCropDialog
+          photo={photo}
+          isSaving={isProcessing}
+          onConfirm={handleCrop}
+          onCancel={() => setPhoto(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,38 @@
+import React from 'react';
+import { LeaderboardEntry } from '../types.ts';
+import { formatPlayTime } from '../services/progress.ts';
+
+interface LeaderboardProps {
+  // Already sorted best first.
+  entries: LeaderboardEntry[];
+  // Entry to pick out, e.g. the turn that was just played.
+  highlight?: LeaderboardEntry;
+}
+
+const MEDALS = ['text-amber-400', 'text-slate-400', 'text-orange-400'];
+
+export const Leaderboard: React.FC<LeaderboardProps> = ({ entries, highlight }) => {
+  if (entries.length === 0) {
+    return <p className="text-[11px] text-slate-400 text-center py-3">No times yet. Be the first!</p>;
+  }
+
+  return (
+    <ol className="space-y-1">
+      {entries.map((entry, i) => (
+        <li
+          key={`${entry.playedAt}-${i}`}
+          className={`flex items-center gap-2 px-2 py-1.5 rounded-lg text-xs ${entry === highlight ? 'bg-indigo-50 ring-1 ring-indigo-200' : ''}`}
+        >
+          <span className="w-5 text-center font-bold text-slate-400">
+            {i < MEDALS.length ? <i className={`fas fa-medal ${MEDALS[i]}`}></i> : i + 1}
+          </span>
+          <span className="flex-1 min-w-0 truncate font-bold text-slate-700">{entry.player}</span>
+          {entry.hintsUsed > 0 && (
+            <span className="text-[9px] text-slate-400"><i className="fas fa-eye mr-0.5"></i>{entry.hintsUsed}</span>
+          )}
+          <span className="font-mono font-bold text-indigo-600">{formatPlayTime(entry.scoreMs)}</span>
+        </li>
+      ))}
+    </ol>
+  );
+};
@@ -0,0 +1,344 @@
+import React, { useRef, useState } from 'react';
+import { BookSummary } from '../types.ts';
+import { bookCompletion } from '../services/progress.ts';
+import { StorageUsage } from '../services/bookStore.ts';
+import { ARCHIVE_EXTENSION } from '../services/bookArchive.ts';
+import {
+  LibrarySort,
+  LIBRARY_SORTS,
+  MAX_TAGS,
+  filterBooks,
+  libraryTags,
+  normalizeTag,
+  formatBytes,
+} from '../services/library.ts';
+
+interface LibraryPanelProps {
+  books: BookSummary[];
+  storage: StorageUsage | null;
+  onOpen: (book: BookSummary) => void;
+  onExport: (book: BookSummary) => void;
+  onDuplicate: (book: BookSummary) => void;
+  onSaveDetails: (book: BookSummary, details: Pick<BookSummary, 'title' | 'tags'>) => void;
+  onDelete: (ids: string[]) => void;
+  onImport: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onClose: () => void;
+}
+
+interface Draft {
+  id: string;
+  title: string;
+  tags: string[];
+  tagInput: string;
+}
+
+export const LibraryPanel: React.FC<LibraryPanelProps> = ({
+  books,
+  storage,
+  onOpen,
+  onExport,
+  onDuplicate,
+  onSaveDetails,
+  onDelete,
+  onImport,
+  onClose,
+}) => {
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<LibrarySort>('newest');
+  const [tag, setTag] = useState<string | null>(null);
+  // Ids ticked for bulk delete; null when not selecting.
+  const [selected, setSelected] = useState<Set<string> | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const tags = libraryTags(books);
+  // A tag that was just removed from its last book no longer filters anything.
+  const activeTag = tag && tags.includes(tag) ? tag : null;
+  const visible = filterBooks(books, { query, tag: activeTag, sort });
+  const booksSize = books.reduce((sum, book) => sum + book.size, 0);
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const deleteSelected = () => {
+    if (!selected || selected.size === 0) return;
+    onDelete([...selected]);
+    setSelected(null);
+  };
+
+  const startEditing = (book: BookSummary) => {
+    setSelected(null);
+    setDraft({ id: book.id, title: book.title, tags: book.tags ?? [], tagInput: '' });
+  };
+
+  const addDraftTag = () => {
+    if (!draft) return;
+    const value = normalizeTag(draft.tagInput);
+    if (!value || draft.tags.includes(value) || draft.tags.length >= MAX_TAGS) {
+      setDraft({ ...draft, tagInput: '' });
+      return;
+    }
+    setDraft({ ...draft, tags: [...draft.tags, value], tagInput: '' });
+  };
+
+  const saveDraft = (book: BookSummary) => {
+    if (!draft) return;
+    // Whatever is still typed in the tag box counts too.
+    const pending = normalizeTag(draft.tagInput);
+    const tags = pending && !draft.tags.includes(pending) ? [...draft.tags, pending].slice(0, MAX_TAGS) : draft.tags;
+    onSaveDetails(book, { title: draft.title.trim() || book.title, tags: tags.length > 0 ? tags : undefined });
+    setDraft(null);
+  };
+
+  const renderEditor = (book: BookSummary, current: Draft) => (
+    <div key={book.id} className="p-3 bg-white rounded-xl border border-indigo-300 shadow-md space-y-2">
+      <input
+        value={current.title}
+        onChange={(e) => setDraft({ ...current, title: e.target.value })}
+        onKeyDown={(e) => e.key === 'Enter' && saveDraft(book)}
+        placeholder="Book title"
+        maxLength={80}
+        autoFocus
+        className="w-full p-2 border border-slate-200 rounded-lg text-xs font-bold bg-slate-50 focus:ring-2 focus:ring-indigo-400 focus:border-transparent"
+      />
+      <div className="flex flex-wrap gap-1">
+        {current.tags.map(value => (
+          <span key={value} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-600 text-[10px] font-bold">
+            {value}
+            <button
+              onClick={() => setDraft({ ...current, tags: current.tags.filter(t => t !== value) })}
+              title="Remove tag"
+              className="text-indigo-300 hover:text-indigo-600"
+            >
+              <i className="fas fa-times text-[8px]"></i>
+            </button>
+          </span>
+        ))}
+      </div>
+      {current.tags.length < MAX_TAGS && (
+        <input
+          value={current.tagInput}
+          onChange={(e) => setDraft({ ...current, tagInput: e.target.value })}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault();
+              addDraftTag();
+            }
+          }}
+          placeholder="Add a tag and press Enter"
+          className="w-full p-2 border border-slate-200 rounded-lg text-[11px] bg-slate-50 focus:ring-2 focus:ring-indigo-400 focus:border-transparent"
+        />
+      )}
+      <div className="flex gap-2">
+        <button onClick={() => setDraft(null)} className="flex-1 py-2 rounded-lg text-[10px] font-bold uppercase tracking-widest text-slate-500 bg-slate-100 hover:bg-slate-200">
+          Cancel
+        </button>
+        <button onClick={() => saveDraft(book)} className="flex-1 py-2 rounded-lg text-[10px] font-bold uppercase tracking-widest text-white bg-indigo-600 hover:bg-indigo-700">
+          Save
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderBook = (book: BookSummary) => {
+    const completion = Math.round(bookCompletion(book) * 100);
+    const isSelected = selected?.has(book.id) ?? false;
+    return (
+      <div
+        key={book.id}
+        onClick={() => selected ? toggleSelected(book.id) : onOpen(book)}
+        className={`group relative flex gap-3 p-3 rounded-xl border cursor-pointer hover:shadow-md transition-all ${isSelected ? 'bg-red-50 border-red-300' : 'bg-slate-50 border-slate-200 hover:border-indigo-400'}`}
+      >
+        {selected && (
+          <div className={`w-5 h-5 self-center rounded-full flex items-center justify-center shrink-0 border ${isSelected ? 'bg-red-500 border-red-500 text-white' : 'border-slate-300 bg-white'}`}>
+            {isSelected && <i className="fas fa-check text-[8px]"></i>}
+          </div>
+        )}
+        <div className="w-14 h-14 rounded-lg overflow-hidden bg-slate-200 shrink-0">
+          {book.thumbnail ? (
+            <img src={book.thumbnail} alt="Quest" loading="lazy" className="w-full h-full object-cover" />
+          ) : (
+            <div className="w-full h-full flex items-center justify-center text-slate-400"><i className="fas fa-image"></i></div>
+          )}
+        </div>
+        <div className="flex-1 min-w-0">
+          <h4 className="font-bold text-slate-700 truncate text-xs">{book.title}</h4>
+          <p className="text-[9px] text-slate-400 uppercase tracking-widest mt-1">
+            {book.pages.length} Pages • {new Date(book.createdAt).toLocaleDateString()} • {formatBytes(book.size)}
+          </p>
+          <div className="flex items-center gap-2 mt-1.5">
+            <div className="flex-1 h-1 bg-slate-200 rounded-full overflow-hidden">
+              <div className="h-full bg-emerald-500" style={{ width: `${completion}%` }}></div>
+            </div>
+            <span className="text-[9px] font-bold text-emerald-600">{completion}%</span>
+          </div>
+          {book.tags && book.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1.5">
+              {book.tags.map(value => (
+                <button
+                  key={value}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setTag(value);
+                  }}
+                  className="px-1.5 py-0.5 rounded-full bg-indigo-50 text-indigo-500 text-[9px] font-bold hover:bg-indigo-100"
+                >
+                  #{value}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        {!selected && (
+          <div className="absolute top-2 right-2 flex bg-slate-50/90 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity" onClick={(e) => e.stopPropagation()}>
+            <button onClick={() => startEditing(book)} title="Rename and tag" className="p-2 text-slate-300 hover:text-indigo-500">
+              <i className="fas fa-pen text-xs"></i>
+            </button>
+            <button onClick={() => onDuplicate(book)} title="Duplicate" className="p-2 text-slate-300 hover:text-indigo-500">
+              <i className="fas fa-copy text-xs"></i>
+            </button>
+            <button onClick={() => onExport(book)} title="Export book file" className="p-2 text-slate-300 hover:text-indigo-500">
+              <i className="fas fa-file-export text-xs"></i>
+            </button>
+            <button onClick={() => onDelete([book.id])} title="Delete" className="p-2 text-slate-300 hover:text-red-500">
+              <i className="fas fa-trash-alt text-xs"></i>
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-2 py-1 rounded-full text-[10px] font-bold whitespace-nowrap transition-all ${active ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`;
+
+  return (
+    <div className="bg-white/95 backdrop-blur shadow-2xl rounded-2xl w-full md:w-96 h-full max-h-[80vh] border border-slate-200 flex flex-col pointer-events-auto animate-in slide-in-from-left duration-300">
+      <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+        <h3 className="font-bold text-slate-700 uppercase tracking-widest text-xs">Quest Vault</h3>
+        <div className="flex items-center gap-3">
+          {books.length > 0 && (
+            <button
+              onClick={() => setSelected(selected ? null : new Set())}
+              className="text-[10px] font-bold uppercase tracking-widest text-indigo-500 hover:text-indigo-700 flex items-center gap-1"
+            >
+              <i className={`fas ${selected ? 'fa-times-circle' : 'fa-check-square'}`}></i> {selected ? 'Done' : 'Select'}
+            </button>
+          )}
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="text-[10px] font-bold uppercase tracking-widest text-indigo-500 hover:text-indigo-700 flex items-center gap-1"
+          >
+            <i className="fas fa-file-import"></i> Import
+          </button>
+          <input
+            type="file"
+            ref={importInputRef}
+            onChange={onImport}
+            accept={`.${ARCHIVE_EXTENSION},application/json`}
+            className="hidden"
+          />
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+      </div>
+
+      {books.length > 0 && (
+        <div className="p-4 pb-2 space-y-2 border-b border-slate-50">
+          <div className="flex gap-2">
+            <div className="relative flex-1 min-w-0">
+              <i className="fas fa-search absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-300 text-xs"></i>
+              <input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search titles and items"
+                className="w-full pl-7 pr-2 py-2 border border-slate-200 rounded-lg text-xs bg-slate-50 focus:ring-2 focus:ring-indigo-400 focus:border-transparent"
+              />
+            </div>
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as LibrarySort)}
+              className="p-2 border border-slate-200 rounded-lg text-[11px] font-bold text-slate-600 bg-slate-50"
+            >
+              {(Object.keys(LIBRARY_SORTS) as LibrarySort[]).map(key => (
+                <option key={key} value={key}>{LIBRARY_SORTS[key]}</option>
+              ))}
+            </select>
+          </div>
+          {tags.length > 0 && (
+            <div className="flex gap-1 overflow-x-auto custom-scrollbar pb-1">
+              <button onClick={() => setTag(null)} className={chipClass(!activeTag)}>All</button>
+              {tags.map(value => (
+                <button key={value} onClick={() => setTag(value === activeTag ? null : value)} className={chipClass(value === activeTag)}>
+                  #{value}
+                </button>
+              ))}
+            </div>
+          )}
+          {selected && (
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setSelected(new Set(visible.map(book => book.id)))}
+                className="text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-indigo-600"
+              >
+                Select All
+              </button>
+              <span className="flex-1"></span>
+              <button
+                onClick={deleteSelected}
+                disabled={selected.size === 0}
+                className="px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest text-white bg-red-500 hover:bg-red-600 disabled:bg-slate-300 flex items-center gap-1"
+              >
+                <i className="fas fa-trash-alt"></i> Delete {selected.size}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-4 custom-scrollbar">
+        {books.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-full text-slate-400 text-center">
+            <i className="fas fa-book-open text-4xl mb-4 opacity-20"></i>
+            <p className="text-sm font-medium">Your library is empty.</p>
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-full text-slate-400 text-center">
+            <i className="fas fa-search text-3xl mb-4 opacity-20"></i>
+            <p className="text-sm font-medium">No quests match.</p>
+          </div>
+        ) : (
+          <div className="grid gap-3">
+            {visible.map(book => draft?.id === book.id ? renderEditor(book, draft) : renderBook(book))}
+          </div>
+        )}
+      </div>
+
+      {books.length > 0 && (
+        <div className="p-4 border-t border-slate-100 bg-slate-50/50 rounded-b-2xl">
+          <div className="flex justify-between items-center mb-1.5 text-[9px] font-bold uppercase tracking-widest">
+            <span className="text-slate-400"><i className="fas fa-hard-drive mr-1"></i>Storage</span>
+            <span className="text-slate-500">
+              {storage ? `${formatBytes(storage.used)} of ${formatBytes(storage.quota)}` : `${formatBytes(booksSize)} of images`}
+            </span>
+          </div>
+          {storage && (
+            <div className="w-full h-1.5 bg-slate-200 rounded-full overflow-hidden">
+              <div
+                className={`h-full ${storage.used / storage.quota > 0.8 ? 'bg-red-500' : 'bg-indigo-500'}`}
+                style={{ width: `${Math.min(100, (storage.used / storage.quota) * 100)}%` }}
+              ></div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
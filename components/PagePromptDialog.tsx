@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+
+interface PagePromptDialogProps {
+  title: string;
+  initialPrompt: string;
+  submitLabel: string;
+  isGenerating: boolean;
+  error: string | null;
+  onSubmit: (prompt: string) => void;
+  // Closes the dialog, or stops the drawing in progress.
+  onCancel: () => void;
+}
+
+export const PagePromptDialog: React.FC<PagePromptDialogProps> = ({
+  title,
+  initialPrompt,
+  submitLabel,
+  isGenerating,
+  error,
+  onSubmit,
+  onCancel,
+}) => {
+  const [prompt, setPrompt] = useState(initialPrompt);
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={isGenerating ? undefined : onCancel}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-bold text-slate-700 uppercase tracking-widest text-xs flex items-center gap-2">
+            <i className="fas fa-paint-brush text-indigo-500"></i> {title}
+          </h3>
+          {!isGenerating && (
+            <button onClick={onCancel} className="text-slate-400 hover:text-slate-600">
+              <i className="fas fa-times"></i>
+            </button>
+          )}
+        </div>
+
+        <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Scene Description</label>
+        <textarea
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          disabled={isGenerating}
+          className="w-full h-28 p-3 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-400 focus:border-transparent resize-none text-sm bg-slate-50 disabled:opacity-60"
+        />
+
+        <div className="flex gap-2 mt-4">
+          <button
+            onClick={onCancel}
+            className="flex-1 py-3 rounded-xl font-bold text-slate-600 bg-slate-100 hover:bg-slate-200 text-sm"
+          >
+            {isGenerating ? 'Stop' : 'Cancel'}
+          </button>
+          <button
+            onClick={() => onSubmit(prompt.trim())}
+            disabled={isGenerating || !prompt.trim()}
+            className="flex-[2] py-3 rounded-xl font-bold text-white shadow-lg bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-400 flex items-center justify-center gap-2 text-sm"
+          >
+            <i className={`fas ${isGenerating ? 'fa-spinner fa-spin' : 'fa-magic'}`}></i>
+            <span>{isGenerating ? 'Drawing...' : submitLabel}</span>
+          </button>
+        </div>
+
+        {error && (
+          <p className="mt-4 text-red-500 text-xs font-bold bg-red-50 p-3 rounded-lg border border-red-100 text-center">
+            {error}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
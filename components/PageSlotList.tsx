@@ -0,0 +1,33 @@
+import React from 'react';
+import { PageJobSlot, PageJobStatus } from '../services/generationJob.ts';
+
+interface PageSlotListProps {
+  slots: PageJobSlot<unknown>[];
+}
+
+const STATUS_STYLES: Record<PageJobStatus, { icon: string; className: string; label: string }> = {
+  queued: { icon: 'fa-clock', className: 'bg-slate-50 border-slate-200 text-slate-400', label: 'Waiting' },
+  generating: { icon: 'fa-paint-brush fa-beat', className: 'bg-indigo-50 border-indigo-200 text-indigo-600', label: 'Drawing' },
+  retrying: { icon: 'fa-rotate fa-spin', className: 'bg-amber-50 border-amber-200 text-amber-600', label: 'Retrying' },
+  done: { icon: 'fa-check', className: 'bg-emerald-50 border-emerald-200 text-emerald-600', label: 'Ready' },
+  failed: { icon: 'fa-triangle-exclamation', className: 'bg-red-50 border-red-200 text-red-500', label: 'Failed' },
+  cancelled: { icon: 'fa-ban', className: 'bg-slate-100 border-slate-200 text-slate-400', label: 'Stopped' },
+};
+
+export const PageSlotList: React.FC<PageSlotListProps> = ({ slots }) => (
+  <div className="flex flex-wrap justify-center gap-2">
+    {slots.map((slot, i) => {
+      const style = STATUS_STYLES[slot.status];
+      return (
+        <div
+          key={i}
+          title={slot.error?.message}
+          className={`px-2.5 py-1.5 rounded-lg border text-[9px] font-bold uppercase tracking-widest flex items-center gap-1.5 ${style.className}`}
+        >
+          <i className={`fas ${style.icon}`}></i>
+          <span>P{i + 1} · {style.label}{slot.attempts > 1 && slot.status !== 'done' ? ` (${slot.attempts})` : ''}</span>
+        </div>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { QuestPage } from '../types.ts';
+
+interface PageStripProps {
+  pages: QuestPage[];
+  currentPage: number;
+  onSelect: (index: number) => void;
+  onMove: (from: number, to: number) => void;
+  onRegenerate: (index: number) => void;
+  onDelete: (index: number) => void;
+  onAdd: () => void;
+  // Adds a spot-the-difference page made from the page at `index` right after it.
+  onMakeDifference: (index: number) => void;
+  // Redrawing and adding need the hero photo, which imported books may not have.
+  canGenerate: boolean;
+  // The page a spot-the-difference copy is being made from.
+  busyIndex: number | null;
+}
+
+export const PageStrip: React.FC<PageStripProps> = ({
+  pages,
+  currentPage,
+  onSelect,
+  onMove,
+  onRegenerate,
+  onDelete,
+  onAdd,
+  onMakeDifference,
+  canGenerate,
+  busyIndex,
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) onMove(dragIndex, index);
+    endDrag();
+  };
+
+  return (
+    <div className="flex gap-3 overflow-x-auto custom-scrollbar p-3">
+      {pages.map((page, i) => (
+        <div
+          key={i}
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move';
+            setDragIndex(i);
+          }}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDropIndex(i);
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleDrop(i);
+          }}
+          onDragEnd={endDrag}
+          className={`group relative shrink-0 w-40 rounded-xl border-2 bg-white overflow-hidden cursor-grab active:cursor-grabbing transition-all ${
+            i === currentPage ? 'border-indigo-500 shadow-lg' : 'border-slate-200 hover:border-indigo-200'
+          } ${dragIndex === i ? 'opacity-40' : ''} ${dropIndex === i && dragIndex !== i ? 'ring-2 ring-indigo-400 ring-offset-2' : ''}`}
+        >
+          <button onClick={() => onSelect(i)} className="block w-full aspect-video bg-slate-100">
+            <img src={page.imageUrl} alt={`Page ${i + 1}`} className="w-full h-full object-cover pointer-events-none" />
+          </button>
+          <div className="flex items-center justify-between px-1.5 py-1">
+            <span className="text-[9px] font-bold text-slate-500 uppercase tracking-widest pl-1">
+              P{i + 1}
+              {page.difference && <i className="fas fa-clone text-indigo-400 ml-1" title="Spot the difference"></i>}
+            </span>
+            <div className="flex">
+              <button
+                onClick={() => onMove(i, i - 1)}
+                disabled={i === 0}
+                title="Move earlier"
+                className="w-6 h-6 text-slate-400 hover:text-indigo-600 disabled:opacity-30"
+              >
+                <i className="fas fa-chevron-left text-[9px]"></i>
+              </button>
+              <button
+                onClick={() => onMove(i, i + 1)}
+                disabled={i === pages.length - 1}
+                title="Move later"
+                className="w-6 h-6 text-slate-400 hover:text-indigo-600 disabled:opacity-30"
+              >
+                <i className="fas fa-chevron-right text-[9px]"></i>
+              </button>
+              <button
+                onClick={() => onRegenerate(i)}
+                // Spot-the-difference pages are remade from their own picture, so they don't need the heroes.
+                disabled={(!canGenerate && !page.difference) || busyIndex !== null}
+                title={page.difference ? "Make new differences" : "Redraw this page"}
+                className="w-6 h-6 text-slate-400 hover:text-indigo-600 disabled:opacity-30"
+              >
+                <i className={`fas ${busyIndex === i && page.difference ? 'fa-spinner fa-spin' : 'fa-rotate'} text-[9px]`}></i>
+              </button>
+              {!page.difference && (
+                <button
+                  onClick={() => onMakeDifference(i)}
+                  disabled={busyIndex !== null}
+                  title="Make a spot-the-difference page from this one"
+                  className="w-6 h-6 text-slate-400 hover:text-indigo-600 disabled:opacity-30"
+                >
+                  <i className={`fas ${busyIndex === i ? 'fa-spinner fa-spin' : 'fa-clone'} text-[9px]`}></i>
+                </button>
+              )}
+              <button
+                onClick={() => onDelete(i)}
+                disabled={pages.length === 1}
+                title="Delete this page"
+                className="w-6 h-6 text-slate-400 hover:text-red-500 disabled:opacity-30"
+              >
+                <i className="fas fa-trash text-[9px]"></i>
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={onAdd}
+        disabled={!canGenerate}
+        title={canGenerate ? "Draw another page" : "Add a hero photo to draw new pages"}
+        className="shrink-0 w-40 rounded-xl border-2 border-dashed border-slate-300 text-slate-400 hover:border-indigo-300 hover:text-indigo-500 disabled:opacity-40 disabled:hover:border-slate-300 disabled:hover:text-slate-400 flex flex-col items-center justify-center gap-1 transition-all"
+      >
+        <i className="fas fa-plus"></i>
+        <span className="text-[9px] font-bold uppercase tracking-widest">Add Page</span>
+      </button>
+    </div>
+  );
+};
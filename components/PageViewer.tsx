@@ -0,0 +1,317 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { containRect, NormalizedPoint, Rect } from '../utils/geometry.ts';
+
+interface PageViewerProps {
+  src: string;
+  alt: string;
+  onTap?: (point: NormalizedPoint) => void;
+  // Where the pointer is over the image, or null once it leaves it; used by the warmer/colder hint.
+  onHover?: (point: NormalizedPoint | null) => void;
+  // Overlays positioned in percentages of the drawn image (see boxToStyle); they pan and zoom with it.
+  children?: React.ReactNode;
+}
+
+interface Transform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 6;
+const DOUBLE_TAP_MS = 250;
+// Pointer travel (px) before a press counts as a drag rather than a tap.
+const DRAG_THRESHOLD = 6;
+const LOUPE_SIZE = 150;
+const LOUPE_ZOOM = 2.5;
+
+const IDENTITY: Transform = { scale: 1, x: 0, y: 0 };
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+export const PageViewer: React.FC<PageViewerProps> = ({ src, alt, onTap, onHover, children }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [frame, setFrame] = useState<Rect | null>(null);
+  const [transform, setTransform] = useState<Transform>(IDENTITY);
+  const [loupeEnabled, setLoupeEnabled] = useState(false);
+  const [loupePoint, setLoupePoint] = useState<{ x: number; y: number } | null>(null);
+
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const gesture = useRef({ dragged: false, startX: 0, startY: 0, pinchDistance: 0 });
+  const [isGesturing, setIsGesturing] = useState(false);
+  const pendingTap = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Keep the overlay layer glued to the letterboxed image as the layout changes.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !naturalSize) return;
+
+    const measure = () => {
+      setFrame(containRect(container.clientWidth, container.clientHeight, naturalSize.width, naturalSize.height));
+      setTransform(IDENTITY);
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [naturalSize]);
+
+  useEffect(() => () => {
+    if (pendingTap.current) clearTimeout(pendingTap.current);
+  }, []);
+
+  // React registers wheel listeners as passive, which would let the page scroll while zooming.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      zoomAt(scale => scale * Math.exp(-e.deltaY * 0.0015), e.clientX - rect.left, e.clientY - rect.top);
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  // Keeps the zoomed content covering the viewport so the page can't be dragged out of sight.
+  const clampTransform = ({ scale, x, y }: Transform): Transform => {
+    const container = containerRef.current;
+    if (!container) return { scale, x, y };
+    const minX = container.clientWidth * (1 - scale);
+    const minY = container.clientHeight * (1 - scale);
+    return {
+      scale,
+      x: Math.min(0, Math.max(minX, x)),
+      y: Math.min(0, Math.max(minY, y)),
+    };
+  };
+
+  // Zooms so that the container point (px, py) stays under the finger/cursor.
+  const zoomAt = (nextScale: (scale: number) => number, px: number, py: number) => {
+    setTransform(prev => {
+      const scale = clampScale(nextScale(prev.scale));
+      const ratio = scale / prev.scale;
+      return clampTransform({
+        scale,
+        x: px - (px - prev.x) * ratio,
+        y: py - (py - prev.y) * ratio,
+      });
+    });
+  };
+
+  const toContainerPoint = (clientX: number, clientY: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: clientX - rect.left, y: clientY - rect.top };
+  };
+
+  // The frame's client rect already reflects the current pan and zoom; points on the letterbox are null.
+  const toImagePoint = (clientX: number, clientY: number): NormalizedPoint | null => {
+    const rect = frameRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    const onImage = clientX >= rect.left && clientX <= rect.right && clientY >= rect.top && clientY <= rect.bottom;
+    if (!onImage) return null;
+    return {
+      x: ((clientX - rect.left) / rect.width) * 1000,
+      y: ((clientY - rect.top) / rect.height) * 1000,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    setIsGesturing(true);
+    if (pointers.current.size === 1) {
+      gesture.current = { dragged: false, startX: e.clientX, startY: e.clientY, pinchDistance: 0 };
+    } else if (pointers.current.size === 2) {
+      const [a, b] = [...pointers.current.values()];
+      gesture.current.pinchDistance = Math.hypot(a.x - b.x, a.y - b.y);
+      gesture.current.dragged = true;
+    }
+    if (loupeEnabled) setLoupePoint(toContainerPoint(e.clientX, e.clientY));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (loupeEnabled) setLoupePoint(toContainerPoint(e.clientX, e.clientY));
+    onHover?.(toImagePoint(e.clientX, e.clientY));
+
+    const previous = pointers.current.get(e.pointerId);
+    if (!previous) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pointers.current.size === 2) {
+      const [a, b] = [...pointers.current.values()];
+      const distance = Math.hypot(a.x - b.x, a.y - b.y);
+      const mid = toContainerPoint((a.x + b.x) / 2, (a.y + b.y) / 2);
+      const previousDistance = gesture.current.pinchDistance;
+      if (previousDistance > 0) {
+        zoomAt(scale => scale * (distance / previousDistance), mid.x, mid.y);
+      }
+      gesture.current.pinchDistance = distance;
+      return;
+    }
+
+    const moved = Math.hypot(e.clientX - gesture.current.startX, e.clientY - gesture.current.startY);
+    if (moved > DRAG_THRESHOLD) gesture.current.dragged = true;
+    // With the loupe on, a one-finger drag steers the loupe instead of panning.
+    if (gesture.current.dragged && !loupeEnabled) {
+      const dx = e.clientX - previous.x;
+      const dy = e.clientY - previous.y;
+      setTransform(prev => clampTransform({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!pointers.current.delete(e.pointerId)) return;
+    if (pointers.current.size > 0) return;
+    setIsGesturing(false);
+    if (e.pointerType !== 'mouse') setLoupePoint(null);
+    if (!gesture.current.dragged && e.type === 'pointerup') handleTap(e.clientX, e.clientY);
+  };
+
+  // A single tap is held back briefly so a double tap can zoom without also counting as a guess.
+  const handleTap = (clientX: number, clientY: number) => {
+    const frameElement = frameRef.current;
+    if (!frameElement) return;
+    const { x, y } = toContainerPoint(clientX, clientY);
+
+    if (pendingTap.current) {
+      clearTimeout(pendingTap.current);
+      pendingTap.current = null;
+      zoomAt(scale => scale >= MAX_SCALE ? MIN_SCALE : scale * 2, x, y);
+      return;
+    }
+
+    // Taps on the letterbox are ignored.
+    const point = toImagePoint(clientX, clientY);
+    pendingTap.current = setTimeout(() => {
+      pendingTap.current = null;
+      if (point && !loupeEnabled) onTap?.(point);
+    }, DOUBLE_TAP_MS);
+  };
+
+  const zoomFromCenter = (factor: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    zoomAt(scale => scale * factor, container.clientWidth / 2, container.clientHeight / 2);
+  };
+
+  // Where the image currently sits in the container, used to aim the loupe's background.
+  const loupeStyle = (): React.CSSProperties | null => {
+    if (!loupePoint || !frame) return null;
+    const left = transform.x + frame.left * transform.scale;
+    const top = transform.y + frame.top * transform.scale;
+    const width = frame.width * transform.scale * LOUPE_ZOOM;
+    const height = frame.height * transform.scale * LOUPE_ZOOM;
+    const half = LOUPE_SIZE / 2;
+    return {
+      width: LOUPE_SIZE,
+      height: LOUPE_SIZE,
+      left: loupePoint.x - half,
+      top: loupePoint.y - half,
+      backgroundImage: `url("${src}")`,
+      backgroundRepeat: 'no-repeat',
+      backgroundSize: `${width}px ${height}px`,
+      backgroundPosition: `${half - (loupePoint.x - left) * LOUPE_ZOOM}px ${half - (loupePoint.y - top) * LOUPE_ZOOM}px`,
+    };
+  };
+
+  const magnifier = loupeEnabled ? loupeStyle() : null;
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative w-full h-full overflow-hidden touch-none select-none ${transform.scale > 1 && !loupeEnabled ? 'cursor-grab active:cursor-grabbing' : ''}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={(e) => {
+        onHover?.(null);
+        if (e.pointerType !== 'mouse') return;
+        handlePointerUp(e);
+        setLoupePoint(null);
+      }}
+    >
+      <div
+        className="absolute inset-0 origin-top-left"
+        style={{
+          transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
+          transition: isGesturing ? 'none' : 'transform 0.15s ease-out',
+        }}
+      >
+        <img
+          src={src}
+          alt={alt}
+          onLoad={(e) => {
+            const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+            // Swapping in a same-sized picture (e.g. flicker mode) keeps the current zoom.
+            setNaturalSize(prev => prev?.width === width && prev?.height === height ? prev : { width, height });
+          }}
+          className="absolute inset-0 w-full h-full object-contain"
+          draggable={false}
+        />
+        {frame && (
+          <div
+            ref={frameRef}
+            className={`absolute ${onTap && !loupeEnabled ? 'cursor-crosshair' : ''}`}
+            style={{ left: frame.left, top: frame.top, width: frame.width, height: frame.height }}
+          >
+            {children}
+          </div>
+        )}
+      </div>
+
+      {magnifier && (
+        <div
+          className="absolute pointer-events-none rounded-full border-4 border-white shadow-2xl ring-2 ring-indigo-400 bg-slate-100 z-40"
+          style={magnifier}
+        />
+      )}
+
+      {/* Zoom Controls */}
+      <div
+        className="absolute bottom-3 left-3 flex flex-col gap-1 z-40"
+        onPointerDown={(e) => e.stopPropagation()}
+        onPointerUp={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={() => zoomFromCenter(1.5)}
+          disabled={transform.scale >= MAX_SCALE}
+          className="w-8 h-8 rounded-lg bg-white/90 text-slate-600 border border-slate-200 shadow flex items-center justify-center disabled:opacity-30 active:scale-90"
+        >
+          <i className="fas fa-plus text-xs"></i>
+        </button>
+        <button
+          onClick={() => zoomFromCenter(1 / 1.5)}
+          disabled={transform.scale <= MIN_SCALE}
+          className="w-8 h-8 rounded-lg bg-white/90 text-slate-600 border border-slate-200 shadow flex items-center justify-center disabled:opacity-30 active:scale-90"
+        >
+          <i className="fas fa-minus text-xs"></i>
+        </button>
+        <button
+          onClick={() => setTransform(IDENTITY)}
+          disabled={transform.scale === MIN_SCALE}
+          className="w-8 h-8 rounded-lg bg-white/90 text-slate-600 border border-slate-200 shadow flex items-center justify-center disabled:opacity-30 active:scale-90"
+        >
+          <i className="fas fa-expand text-xs"></i>
+        </button>
+        <button
+          onClick={() => {
+            setLoupeEnabled(prev => !prev);
+            setLoupePoint(null);
+          }}
+          className={`w-8 h-8 rounded-lg border shadow flex items-center justify-center active:scale-90 ${loupeEnabled ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white/90 text-slate-600 border-slate-200'}`}
+        >
+          <i className="fas fa-magnifying-glass text-xs"></i>
+        </button>
+      </div>
+
+      {transform.scale > 1 && (
+        <span className="absolute top-3 left-3 bg-slate-800/80 text-white text-[9px] font-bold px-2 py-1 rounded z-40 pointer-events-none">
+          {transform.scale.toFixed(1)}x
+        </span>
+      )}
+    </div>
+  );
+};
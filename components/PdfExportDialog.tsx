@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { SavedBook } from '../types.ts';
+import { exportBookPdf, PdfPageSize, PDF_PAGE_SIZES } from '../services/pdfExport.ts';
+import { downloadBlob, toFileName } from '../utils/download.ts';
+
+interface PdfExportDialogProps {
+  book: SavedBook;
+  onClose: () => void;
+}
+
+export const PdfExportDialog: React.FC<PdfExportDialogProps> = ({ book, onClose }) => {
+  const [size, setSize] = useState<PdfPageSize>('a4');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const blob = await exportBookPdf(book, size);
+      downloadBlob(blob, toFileName(book.title, 'pdf'));
+      onClose();
+    } catch (err) {
+      console.error("PDF export failed", err);
+      setError((err instanceof Error && err.message) || "Could not build the PDF. Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-bold text-slate-700 uppercase tracking-widest text-xs flex items-center gap-2">
+            <i className="fas fa-file-pdf text-red-500"></i> Print Your Book
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <p className="text-[11px] text-slate-500 mb-4 leading-relaxed">
+          Includes a cover, all {book.pages.length} quest pages with their checklists, and answer pages at the back.
+        </p>
+
+        <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Page Size</label>
+        <div className="grid gap-2 mb-6">
+          {(Object.keys(PDF_PAGE_SIZES) as PdfPageSize[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setSize(key)}
+              className={`p-3 rounded-xl border text-left text-xs font-bold transition-all ${size === key ? 'border-indigo-400 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-600 hover:border-indigo-200'}`}
+            >
+              {PDF_PAGE_SIZES[key].label}
+              <span className="block text-[9px] font-medium text-slate-400 mt-0.5">
+                {PDF_PAGE_SIZES[key].width} x {PDF_PAGE_SIZES[key].height} mm
+              </span>
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="w-full py-3 rounded-xl font-bold text-white shadow-lg bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-400 flex items-center justify-center gap-2"
+        >
+          <i className={`fas ${isExporting ? 'fa-spinner fa-spin' : 'fa-download'}`}></i>
+          <span>{isExporting ? 'Building PDF...' : 'Download PDF'}</span>
+        </button>
+
+        {error && (
+          <p className="mt-4 text-red-500 text-xs font-bold bg-red-50 p-3 rounded-lg border border-red-100 text-center">
+            {error}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
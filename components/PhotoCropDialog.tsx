@@ -0,0 +1,196 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BoundingBox } from '../types.ts';
+import { geminiService } from '../services/geminiService.ts';
+import { NormalizedPoint, boxToStyle } from '../utils/geometry.ts';
+
+interface PhotoCropDialogProps {
+  photo: string;
+  isSaving: boolean;
+  onConfirm: (crop: BoundingBox) => void;
+  onCancel: () => void;
+}
+
+type Handle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+interface Drag {
+  handle: Handle;
+  start: NormalizedPoint;
+  frame: BoundingBox;
+}
+
+// Smallest frame, in 0-1000 units of either side.
+const MIN_FRAME = 80;
+// Room kept around the face on every side, as a share of the face's size, so hair and shoulders make it in.
+const FACE_MARGIN = 0.6;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * A square (on screen) frame around the face, pushed back inside the photo where it would spill over.
+ * Without a face it is the largest centred square. `aspect` is the photo's width / height.
+ */
+const suggestFrame = (face: BoundingBox | null, aspect: number): BoundingBox => {
+  // Work in units where the photo's height is 1000 and its width is 1000 * aspect.
+  const photoWidth = 1000 * aspect;
+  const maxSide = Math.min(1000, photoWidth);
+  let side = maxSide;
+  let centerX = photoWidth / 2;
+  let centerY = 500;
+  if (face) {
+    const faceWidth = ((face[3] - face[1]) / 1000) * photoWidth;
+    const faceHeight = face[2] - face[0];
+    side = clamp(Math.max(faceWidth, faceHeight) * (1 + 2 * FACE_MARGIN), MIN_FRAME, maxSide);
+    centerX = ((face[1] + face[3]) / 2 / 1000) * photoWidth;
+    centerY = (face[0] + face[2]) / 2;
+  }
+  const left = clamp(centerX - side / 2, 0, photoWidth - side);
+  const top = clamp(centerY - side / 2, 0, 1000 - side);
+  return [
+    Math.round(top),
+    Math.round((left / photoWidth) * 1000),
+    Math.round(top + side),
+    Math.round(((left + side) / photoWidth) * 1000),
+  ];
+};
+
+const moveFrame = ({ handle, start, frame }: Drag, point: NormalizedPoint): BoundingBox => {
+  const dx = point.x - start.x;
+  const dy = point.y - start.y;
+  let [top, left, bottom, right] = frame;
+
+  if (handle === 'move') {
+    const x = clamp(dx, -left, 1000 - right);
+    const y = clamp(dy, -top, 1000 - bottom);
+    return [top + y, left + x, bottom + y, right + x];
+  }
+  if (handle === 'nw' || handle === 'ne') top = clamp(top + dy, 0, bottom - MIN_FRAME);
+  if (handle === 'sw' || handle === 'se') bottom = clamp(bottom + dy, top + MIN_FRAME, 1000);
+  if (handle === 'nw' || handle === 'sw') left = clamp(left + dx, 0, right - MIN_FRAME);
+  if (handle === 'ne' || handle === 'se') right = clamp(right + dx, left + MIN_FRAME, 1000);
+  return [top, left, bottom, right];
+};
+
+const HANDLE_POSITIONS: Record<Exclude<Handle, 'move'>, string> = {
+  nw: '-top-2 -left-2 cursor-nwse-resize',
+  ne: '-top-2 -right-2 cursor-nesw-resize',
+  sw: '-bottom-2 -left-2 cursor-nesw-resize',
+  se: '-bottom-2 -right-2 cursor-nwse-resize',
+};
+
+export const PhotoCropDialog: React.FC<PhotoCropDialogProps> = ({ photo, isSaving, onConfirm, onCancel }) => {
+  const areaRef = useRef<HTMLDivElement>(null);
+  const [aspect, setAspect] = useState<number | null>(null);
+  const [frame, setFrame] = useState<BoundingBox>([0, 0, 1000, 1000]);
+  const [isLocating, setIsLocating] = useState(true);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  // Once the player has moved the frame, a late face suggestion mustn't yank it away.
+  const adjusted = useRef(false);
+
+  useEffect(() => {
+    if (aspect === null) return;
+    setFrame(suggestFrame(null, aspect));
+    const controller = new AbortController();
+    geminiService.locateFace(photo, { signal: controller.signal })
+      .then((face) => {
+        if (face && !adjusted.current) setFrame(suggestFrame(face, aspect));
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) console.error("Face detection failed", err);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLocating(false);
+      });
+    return () => controller.abort();
+  }, [photo, aspect]);
+
+  const toPoint = (e: React.PointerEvent): NormalizedPoint => {
+    const rect = areaRef.current!.getBoundingClientRect();
+    return {
+      x: clamp(((e.clientX - rect.left) / rect.width) * 1000, 0, 1000),
+      y: clamp(((e.clientY - rect.top) / rect.height) * 1000, 0, 1000),
+    };
+  };
+
+  const startDrag = (handle: Handle) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    areaRef.current?.setPointerCapture(e.pointerId);
+    adjusted.current = true;
+    setDrag({ handle, start: toPoint(e), frame });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-900/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={isSaving ? undefined : onCancel}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg p-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="font-bold text-slate-700 uppercase tracking-widest text-xs flex items-center gap-2">
+            <i className="fas fa-crop-alt text-indigo-500"></i> Frame the Hero
+          </h3>
+          {!isSaving && (
+            <button onClick={onCancel} className="text-slate-400 hover:text-slate-600">
+              <i className="fas fa-times"></i>
+            </button>
+          )}
+        </div>
+
+        <p className="text-[11px] text-slate-500 mb-3 flex items-center gap-2">
+          {isLocating ? (
+            <><i className="fas fa-spinner fa-spin text-indigo-400"></i> Looking for a face...</>
+          ) : (
+            <>Drag the frame or its corners so the face and shoulders fill it.</>
+          )}
+        </p>
+
+        <div className="flex justify-center bg-slate-900 rounded-xl overflow-hidden select-none touch-none">
+          <div
+            ref={areaRef}
+            className="relative inline-block"
+            onPointerMove={(e) => drag && setFrame(moveFrame(drag, toPoint(e)))}
+            onPointerUp={() => setDrag(null)}
+            onPointerCancel={() => setDrag(null)}
+          >
+            <img
+              src={photo}
+              alt="Hero photo"
+              draggable={false}
+              onLoad={(e) => setAspect(e.currentTarget.naturalWidth / e.currentTarget.naturalHeight)}
+              className="block max-w-full max-h-[55vh]"
+            />
+            {aspect !== null && (
+              <div
+                onPointerDown={startDrag('move')}
+                className="absolute border-2 border-white cursor-move shadow-[0_0_0_9999px_rgba(15,23,42,0.55)]"
+                style={boxToStyle(frame)}
+              >
+                {(Object.keys(HANDLE_POSITIONS) as (keyof typeof HANDLE_POSITIONS)[]).map(handle => (
+                  <div
+                    key={handle}
+                    onPointerDown={startDrag(handle)}
+                    className={`absolute w-4 h-4 bg-white rounded-full border-2 border-indigo-500 ${HANDLE_POSITIONS[handle]}`}
+                  ></div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex gap-2 mt-4">
+          <button
+            onClick={onCancel}
+            disabled={isSaving}
+            className="flex-1 py-3 rounded-xl font-bold text-slate-600 bg-slate-100 hover:bg-slate-200 text-sm disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(frame)}
+            disabled={isSaving || aspect === null}
+            className="flex-[2] py-3 rounded-xl font-bold text-white shadow-lg bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-400 flex items-center justify-center gap-2 text-sm"
+          >
+            <i className={`fas ${isSaving ? 'fa-spinner fa-spin' : 'fa-check'}`}></i>
+            <span>{isSaving ? 'Saving...' : 'Use This Photo'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
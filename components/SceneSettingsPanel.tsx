@@ -0,0 +1,73 @@
+import React from 'react';
+import { AgeRange, ArtStyle, Difficulty, SceneSettings } from '../types.ts';
+import { AGE_RANGES, ART_STYLES, DIFFICULTIES, MAX_ITEM_COUNT, MIN_ITEM_COUNT } from '../services/promptBuilder.ts';
+
+interface SceneSettingsPanelProps {
+  settings: SceneSettings;
+  onChange: (settings: SceneSettings) => void;
+}
+
+const DIFFICULTY_ICONS: Record<Difficulty, string> = {
+  easy: 'fa-seedling',
+  medium: 'fa-mountain',
+  hard: 'fa-fire',
+};
+
+export const SceneSettingsPanel: React.FC<SceneSettingsPanelProps> = ({ settings, onChange }) => {
+  const update = (patch: Partial<SceneSettings>) => onChange({ ...settings, ...patch });
+
+  const optionClass = (selected: boolean) =>
+    `flex-1 py-2 px-1 rounded-lg border text-[10px] font-bold transition-all ${selected ? 'border-indigo-400 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-500 hover:border-indigo-200'}`;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Difficulty</label>
+        <div className="flex gap-2">
+          {(Object.keys(DIFFICULTIES) as Difficulty[]).map(key => (
+            <button key={key} onClick={() => update({ difficulty: key })} className={optionClass(settings.difficulty === key)}>
+              <i className={`fas ${DIFFICULTY_ICONS[key]} mr-1`}></i> {DIFFICULTIES[key].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Art Style</label>
+        <div className="flex gap-2">
+          {(Object.keys(ART_STYLES) as ArtStyle[]).map(key => (
+            <button key={key} onClick={() => update({ artStyle: key })} className={optionClass(settings.artStyle === key)}>
+              {ART_STYLES[key].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Reader Age</label>
+        <select
+          value={settings.ageRange}
+          onChange={(e) => update({ ageRange: e.target.value as AgeRange })}
+          className="w-full p-2 border border-slate-200 rounded-lg text-xs bg-slate-50 text-slate-600 focus:ring-2 focus:ring-indigo-400 focus:border-transparent"
+        >
+          {(Object.keys(AGE_RANGES) as AgeRange[]).map(key => (
+            <option key={key} value={key}>{AGE_RANGES[key].label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-wider">Things To Find</label>
+          <span className="text-xs font-bold text-indigo-600">{settings.itemCount} per page</span>
+        </div>
+        <input
+          type="range" min={MIN_ITEM_COUNT} max={MAX_ITEM_COUNT} step="1"
+          value={settings.itemCount}
+          onChange={(e) => update({ itemCount: parseInt(e.target.value) })}
+          className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+        />
+      </div>
+    </div>
+  );
+};
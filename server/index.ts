@@ -0,0 +1,16 @@
+import { createServer } from 'node:http';
+import { createProxyHandler, proxyOptionsFromEnv } from './proxy.ts';
+
+// Standalone API server for deployments; in development the same handler runs inside Vite.
+const port = Number(process.env.PORT) || 3001;
+const handler = createProxyHandler(proxyOptionsFromEnv(process.env));
+
+createServer((req, res) => {
+  handler(req, res).catch((error) => {
+    console.error("Unhandled proxy error:", error);
+    if (!res.headersSent) res.writeHead(500);
+    res.end();
+  });
+}).listen(port, () => {
+  console.log(`CrowdQuest API listening on http://localhost:${port}`);
+});
@@ -0,0 +1,28 @@
+import type { ContentListUnion, GenerateContentConfig, GenerateContentResponse } from '@google/genai';
+
+/**
+ * Wire format between the browser's GeminiProvider and the proxy server. The browser never names a
+ * model: each endpoint is pinned to one on the server, so the key can't be spent on anything else.
+ * `generate` draws pictures; `locate` finds things in them and answers every other structured question.
+ */
+export type ProxyEndpoint = 'generate' | 'locate';
+
+// The only request options passed through to Gemini.
+export type ProxyConfig = Pick<GenerateContentConfig, 'responseMimeType' | 'responseSchema' | 'imageConfig'>;
+
+export interface ProxyRequest {
+  contents: ContentListUnion;
+  config?: ProxyConfig;
+}
+
+// `text` is a getter on the SDK's response class, so the server spells it out.
+export type ProxyResponse = Pick<GenerateContentResponse, 'candidates' | 'promptFeedback'> & { text?: string };
+
+export type ProxyErrorCode = 'missing-key' | 'rate-limited' | 'too-large' | 'bad-request' | 'not-found' | 'upstream';
+
+export interface ProxyErrorBody {
+  error: {
+    code: ProxyErrorCode;
+    message: string;
+  };
+}
@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, test } from 'node:test';
+import { createProxyHandler } from './proxy.ts';
+import type { ProxyOptions } from './proxy.ts';
+import { StubUpstream } from './upstream.ts';
+
+const upstream = new StubUpstream();
+const servers: Server[] = [];
+let baseUrl: string;
+
+const start = async (options: ProxyOptions): Promise<string> => {
+  const handler = createProxyHandler(options);
+  const server = createServer((req, res) => void handler(req, res));
+  servers.push(server);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+before(async () => {
+  baseUrl = await start({ upstream });
+});
+
+after(() => Promise.all(servers.map(server => new Promise<void>(resolve => server.close(() => resolve())))));
+
+const post = (path: string, body: unknown, url = baseUrl) =>
+  fetch(`${url}${path}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+test('answers known endpoints from the upstream', async () => {
+  const res = await post('/api/locate', { contents: 'hello' });
+  assert.equal(res.status, 200);
+  assert.equal(upstream.requests.at(-1)?.model, 'gemini-3-flash-preview');
+});
+
+test('rejects unknown endpoints with 404', async () => {
+  const res = await post('/api/nope', { contents: 'hello' });
+  assert.equal(res.status, 404);
+});
+
+test('rejects Object.prototype keys as endpoints with 404', async () => {
+  for (const name of ['toString', '__proto__', 'constructor', 'hasOwnProperty']) {
+    const res = await post(`/api/${name}`, { contents: 'hello' });
+    assert.equal(res.status, 404, name);
+    assert.equal((await res.json()).error.code, 'not-found');
+  }
+});
+
+test('answers oversized bodies with 413 instead of dropping the connection', async () => {
+  const url = await start({ upstream, maxBodyBytes: 1024 });
+  const res = await post('/api/generate', { contents: 'x'.repeat(64 * 1024) }, url);
+  assert.equal(res.status, 413);
+  assert.equal(res.headers.get('connection'), 'close');
+  assert.equal((await res.json()).error.code, 'too-large');
+});
+
+test('answers bodies that outgrow the limit while streaming with 413', async () => {
+  const url = await start({ upstream, maxBodyBytes: 1024 });
+  const chunk = new TextEncoder().encode('x'.repeat(512));
+  let sent = 0;
+  // No Content-Length: the body arrives chunked, so the limit is only hit while reading.
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (sent++ < 8) controller.enqueue(chunk);
+      else controller.close();
+    },
+  });
+  const res = await fetch(`${url}/api/generate`, { method: 'POST', body, duplex: 'half' } as RequestInit);
+  assert.equal(res.status, 413);
+  assert.equal((await res.json()).error.code, 'too-large');
+});
@@ -0,0 +1,178 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { ProxyConfig, ProxyEndpoint, ProxyErrorBody, ProxyErrorCode, ProxyRequest } from './protocol.ts';
+import { RateLimiter } from './rateLimiter.ts';
+import { GeminiUpstream, StubUpstream, UpstreamError } from './upstream.ts';
+import type { Upstream } from './upstream.ts';
+
+export const API_PREFIX = '/api/';
+
+const MODELS: Record<ProxyEndpoint, string> = {
+  generate: 'gemini-2.5-flash-image',
+  locate: 'gemini-3-flash-preview',
+};
+
+export interface ProxyOptions {
+  upstream: Upstream;
+  // Requests each client may make per minute, by endpoint. Drawing costs far more than looking.
+  rateLimits?: Record<ProxyEndpoint, number>;
+  // Largest request body accepted; pictures arrive inline as base64.
+  maxBodyBytes?: number;
+  // Behind a reverse proxy every request comes from the proxy, so the client is read from X-Forwarded-For.
+  trustProxy?: boolean;
+}
+
+const DEFAULT_RATE_LIMITS: Record<ProxyEndpoint, number> = { generate: 10, locate: 60 };
+// Gemini caps inline requests at 20 MB.
+const DEFAULT_MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+const CONFIG_KEYS: (keyof ProxyConfig)[] = ['responseMimeType', 'responseSchema', 'imageConfig'];
+
+class RequestError extends Error {
+  readonly status: number;
+  readonly code: ProxyErrorCode;
+
+  constructor(status: number, code: ProxyErrorCode, message: string) {
+    super(message);
+    this.name = 'RequestError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number, code: ProxyErrorCode, message: string, headers?: Record<string, string>) => {
+  const body: ProxyErrorBody = { error: { code, message } };
+  sendJson(res, status, body, headers);
+};
+
+const clientOf = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string' && forwarded) return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+// Stops reading as soon as the limit is passed; the caller answers 413 and closes the connection.
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<string> => {
+  const declared = Number(req.headers['content-length']);
+  if (declared > maxBytes) return Promise.reject(new RequestError(413, 'too-large', "The request is too large."));
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        req.off('data', onData);
+        req.pause();
+        reject(new RequestError(413, 'too-large', "The request is too large."));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Only the contents and a few known options are forwarded; anything else in the body is dropped.
+const readProxyRequest = (body: string): ProxyRequest => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    throw new RequestError(400, 'bad-request', "The request body isn't valid JSON.");
+  }
+  if (!isRecord(parsed) || parsed.contents === undefined || parsed.contents === null) {
+    throw new RequestError(400, 'bad-request', "The request has no contents.");
+  }
+  const config: ProxyConfig = {};
+  if (isRecord(parsed.config)) {
+    for (const key of CONFIG_KEYS) {
+      if (parsed.config[key] !== undefined) Object.assign(config, { [key]: parsed.config[key] });
+    }
+  }
+  return { contents: parsed.contents as ProxyRequest['contents'], config };
+};
+
+// Errors from the Gemini SDK carry the HTTP status Gemini answered with.
+const statusOf = (error: unknown): number => {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' && status >= 400 ? status : 502;
+};
+
+/**
+ * Handles requests under /api/. Works as a plain `http` request listener and as Vite middleware.
+ */
+export const createProxyHandler = ({
+  upstream,
+  rateLimits = DEFAULT_RATE_LIMITS,
+  maxBodyBytes = DEFAULT_MAX_BODY_BYTES,
+  trustProxy = false,
+}: ProxyOptions) => {
+  const limiters: Record<ProxyEndpoint, RateLimiter> = {
+    generate: new RateLimiter(rateLimits.generate),
+    locate: new RateLimiter(rateLimits.locate),
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    const endpoint = path.slice(API_PREFIX.length) as ProxyEndpoint;
+    // Own keys only, so `/api/toString` and friends don't reach the inherited Object members.
+    if (!path.startsWith(API_PREFIX) || !Object.hasOwn(MODELS, endpoint)) {
+      sendError(res, 404, 'not-found', "No such endpoint.");
+      return;
+    }
+    if (req.method !== 'POST') {
+      sendError(res, 405, 'bad-request', "Use POST.", { Allow: 'POST' });
+      return;
+    }
+
+    const limit = limiters[endpoint].take(clientOf(req, trustProxy));
+    if (!limit.allowed) {
+      sendError(res, 429, 'rate-limited', "Too many requests - rate limit reached. Try again shortly.", {
+        'Retry-After': String(limit.retryAfterSeconds),
+      });
+      return;
+    }
+
+    // A client that gives up (e.g. cancels a book) shouldn't keep the upstream call running.
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    try {
+      const request = readProxyRequest(await readBody(req, maxBodyBytes));
+      const response = await upstream.generateContent(MODELS[endpoint], request, controller.signal);
+      sendJson(res, 200, response);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      if (error instanceof RequestError && error.status === 413) {
+        // The rest of the body is never read, so the connection can't be reused; drop it once the answer is out.
+        res.once('finish', () => req.destroy());
+        sendError(res, error.status, error.code, error.message, { Connection: 'close' });
+        return;
+      }
+      if (error instanceof RequestError || error instanceof UpstreamError) {
+        sendError(res, error.status, error.code, error.message);
+        return;
+      }
+      console.error(`Proxy ${endpoint} request failed:`, error);
+      sendError(res, statusOf(error), 'upstream', error instanceof Error ? error.message : "Gemini request failed.");
+    }
+  };
+};
+
+// GEMINI_UPSTREAM=stub answers without calling Gemini; TRUST_PROXY=1 reads clients from X-Forwarded-For.
+export const proxyOptionsFromEnv = (env: Record<string, string | undefined>): ProxyOptions => ({
+  upstream: env.GEMINI_UPSTREAM === 'stub' ? new StubUpstream() : new GeminiUpstream(env.GEMINI_API_KEY ?? ''),
+  trustProxy: env.TRUST_PROXY === '1',
+});
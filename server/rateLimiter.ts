@@ -0,0 +1,49 @@
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // How long until the next request would be allowed; 0 when this one was.
+  retryAfterSeconds: number;
+}
+
+// Buckets untouched for this long are full again anyway, so they are dropped.
+const IDLE_MS = 10 * 60 * 1000;
+
+/**
+ * Token bucket per client: up to `perMinute` requests in a burst, refilling continuously at
+ * `perMinute` per minute.
+ */
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+  private perMinute: number;
+  private lastSweep = Date.now();
+
+  constructor(perMinute: number) {
+    this.perMinute = perMinute;
+  }
+
+  take(client: string, now = Date.now()): RateLimitResult {
+    this.sweep(now);
+    const bucket = this.buckets.get(client) ?? { tokens: this.perMinute, updatedAt: now };
+    bucket.tokens = Math.min(this.perMinute, bucket.tokens + ((now - bucket.updatedAt) / 60000) * this.perMinute);
+    bucket.updatedAt = now;
+    this.buckets.set(client, bucket);
+
+    if (bucket.tokens < 1) {
+      return { allowed: false, retryAfterSeconds: Math.ceil(((1 - bucket.tokens) / this.perMinute) * 60) };
+    }
+    bucket.tokens -= 1;
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+
+  private sweep(now: number) {
+    if (now - this.lastSweep < IDLE_MS) return;
+    this.lastSweep = now;
+    for (const [client, bucket] of this.buckets) {
+      if (now - bucket.updatedAt > IDLE_MS) this.buckets.delete(client);
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import type { Schema } from '@google/genai';
+import type { ProxyErrorCode, ProxyRequest, ProxyResponse } from './protocol.ts';
+
+// Whatever actually answers the proxied requests: Gemini itself, or a stub for tests and offline work.
+export interface Upstream {
+  generateContent(model: string, request: ProxyRequest, signal: AbortSignal): Promise<ProxyResponse>;
+}
+
+export class UpstreamError extends Error {
+  readonly status: number;
+  readonly code: ProxyErrorCode;
+
+  constructor(status: number, message: string, code: ProxyErrorCode = 'upstream') {
+    super(message);
+    this.name = 'UpstreamError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export class GeminiUpstream implements Upstream {
+  private ai: GoogleGenAI | null;
+
+  constructor(apiKey: string) {
+    this.ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+  }
+
+  async generateContent(model: string, { contents, config }: ProxyRequest, signal: AbortSignal): Promise<ProxyResponse> {
+    if (!this.ai) {
+      throw new UpstreamError(503, "No Gemini API key is configured on the server.", 'missing-key');
+    }
+    const response = await this.ai.models.generateContent({ model, contents, config: { ...config, abortSignal: signal } });
+    return {
+      candidates: response.candidates,
+      promptFeedback: response.promptFeedback,
+      text: response.text,
+    };
+  }
+}
+
+// A 1x1 white PNG.
+const STUB_IMAGE = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGP4//8/AAX+Av4N70a4AAAAAElFTkSuQmCC';
+
+// The emptiest answer that still fits the schema: nothing found, nothing listed.
+const stubValue = (schema: Schema | undefined): unknown => {
+  switch (schema?.type) {
+    case Type.OBJECT:
+      return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([key, value]) => [key, stubValue(value)]));
+    case Type.ARRAY:
+      return [];
+    case Type.STRING:
+      return '';
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return 0;
+    case Type.BOOLEAN:
+      return false;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Answers without a network or key: image requests get a blank picture, structured requests get
+ * an empty answer shaped by their schema. Every request is recorded for tests to inspect.
+ */
+export class StubUpstream implements Upstream {
+  readonly requests: { model: string; request: ProxyRequest }[] = [];
+
+  async generateContent(model: string, request: ProxyRequest): Promise<ProxyResponse> {
+    this.requests.push({ model, request });
+    const schema = request.config?.responseSchema as Schema | undefined;
+    if (request.config?.responseMimeType === 'application/json') {
+      const text = JSON.stringify(stubValue(schema));
+      return { candidates: [{ content: { role: 'model', parts: [{ text }] } }], text };
+    }
+    const text = 'A stub picture with nothing hidden in it.';
+    return {
+      candidates: [{ content: { role: 'model', parts: [{ inlineData: { mimeType: 'image/png', data: STUB_IMAGE } }, { text }] } }],
+      text,
+    };
+  }
+}
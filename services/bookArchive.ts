@@ -0,0 +1,192 @@
+import { AnswerKey, BoundingBox, DifferencePuzzle, Hero, HeroOutfit, QuestPage, SavedBook, SceneSettings } from '../types.ts';
+import { castFromTargetImage } from './legacy.ts';
+import { AGE_RANGES, ART_STYLES, DIFFICULTIES, MAX_ITEM_COUNT, MIN_ITEM_COUNT } from './promptBuilder.ts';
+import { MAX_TAGS, newBookId, normalizeTag } from './library.ts';
+
+export const ARCHIVE_EXTENSION = 'crowdquest';
+const ARCHIVE_FORMAT = 'crowdquest-book';
+// v2 replaced the single `targetImage` with a named cast; v1 files are still read.
+const ARCHIVE_VERSION = 2;
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+/**
+ * On-disk shape of a `.crowdquest` file: a JSON document holding one book with every image
+ * inlined as a data URL, so the file alone is enough to play the book on another device.
+ */
+interface BookArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  book: SavedBook;
+}
+
+// A shared book is a fresh puzzle for whoever opens it, so the sender's progress and scores stay behind.
+// The thumbnail is left out too; it is remade when the book is saved on the other end.
+export const createBookArchive = ({ lastPage: _lastPage, leaderboard: _leaderboard, thumbnail: _thumbnail, ...book }: SavedBook): Blob => {
+  const archive: BookArchive = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    book: { ...book, pages: book.pages.map(({ progress: _progress, ...page }) => page) },
+  };
+  return new Blob([JSON.stringify(archive)], { type: 'application/json' });
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isImageDataUrl = (value: unknown): value is string =>
+  typeof value === 'string' && /^data:image\/[\w.+-]+(;[\w=.+-]+)*,/.test(value);
+
+const isBox = (value: unknown): value is BoundingBox =>
+  Array.isArray(value) && value.length === 4 && value.every(n => typeof n === 'number' && Number.isFinite(n));
+
+const readAnswerKey = (value: unknown, itemCount: number, where: string): AnswerKey | undefined => {
+  if (value === undefined) return undefined;
+  if (!isRecord(value) || !Array.isArray(value.items) || value.items.length !== itemCount) {
+    throw new ArchiveError(`${where} has a damaged answer key.`);
+  }
+  // Version 1 keys have a single `hero` box.
+  const heroes = Array.isArray(value.heroes) ? value.heroes : [value.hero ?? null];
+  if (!heroes.every(box => box === null || isBox(box))) {
+    throw new ArchiveError(`${where} has a damaged answer key.`);
+  }
+  if (!value.items.every(box => box === null || isBox(box))) {
+    throw new ArchiveError(`${where} has a damaged answer key.`);
+  }
+  const itemConfidence = Array.isArray(value.itemConfidence) && value.itemConfidence.every(n => typeof n === 'number')
+    ? value.itemConfidence as number[]
+    : undefined;
+  return { heroes: heroes as (BoundingBox | null)[], items: value.items as (BoundingBox | null)[], itemConfidence };
+};
+
+const readDifference = (value: unknown, where: string): DifferencePuzzle | undefined => {
+  if (value === undefined) return undefined;
+  if (!isRecord(value) || !isImageDataUrl(value.alteredImageUrl)) {
+    throw new ArchiveError(`${where} has a damaged spot-the-difference picture.`);
+  }
+  return { alteredImageUrl: value.alteredImageUrl };
+};
+
+const readPage = (value: unknown, index: number): QuestPage => {
+  const where = `Page ${index + 1}`;
+  if (!isRecord(value)) throw new ArchiveError(`${where} is missing.`);
+  if (!isImageDataUrl(value.imageUrl)) throw new ArchiveError(`${where} has no picture.`);
+  if (!Array.isArray(value.questItems) || !value.questItems.every(item => typeof item === 'string')) {
+    throw new ArchiveError(`${where} has a damaged quest list.`);
+  }
+  const questItems = value.questItems as string[];
+  const difference = readDifference(value.difference, where);
+  const answerKey = readAnswerKey(value.answerKey, questItems.length, where);
+  // Differences can only be checked against the answer key, so a puzzle without one can't be played.
+  if (difference && !answerKey) throw new ArchiveError(`${where} is missing its differences.`);
+  return {
+    imageUrl: value.imageUrl,
+    questItems,
+    prompt: typeof value.prompt === 'string' ? value.prompt : undefined,
+    caption: typeof value.caption === 'string' ? value.caption : undefined,
+    answerKey,
+    difference,
+  };
+};
+
+const readOutfit = (value: unknown): HeroOutfit | undefined => {
+  if (!isRecord(value)) return undefined;
+  const { colors, hat, pattern } = value;
+  return typeof colors === 'string' && typeof hat === 'string' && typeof pattern === 'string'
+    ? { colors, hat, pattern }
+    : undefined;
+};
+
+const readHero = (value: unknown, index: number): Hero => {
+  if (!isRecord(value) || typeof value.name !== 'string' || !isImageDataUrl(value.image)) {
+    throw new ArchiveError(`The photo of hero ${index + 1} is damaged.`);
+  }
+  if (value.sheet !== undefined && !isImageDataUrl(value.sheet)) {
+    throw new ArchiveError(`The character sheet of hero ${index + 1} is damaged.`);
+  }
+  return { name: value.name, image: value.image, outfit: readOutfit(value.outfit), sheet: value.sheet as string | undefined };
+};
+
+const readCast = (value: Record<string, unknown>, version: number): Hero[] => {
+  if (version === 1) {
+    if (value.targetImage !== null && !isImageDataUrl(value.targetImage)) {
+      throw new ArchiveError("The hero photo is damaged.");
+    }
+    return castFromTargetImage(value.targetImage as string | null);
+  }
+  if (!Array.isArray(value.cast)) throw new ArchiveError("The book has no cast.");
+  return value.cast.map(readHero);
+};
+
+// Unknown settings just fall back to the defaults when new pages are drawn, so they aren't worth rejecting the file over.
+const readSettings = (value: unknown): SceneSettings | undefined => {
+  if (!isRecord(value)) return undefined;
+  const { difficulty, itemCount, artStyle, ageRange } = value;
+  const valid =
+    typeof difficulty === 'string' && difficulty in DIFFICULTIES &&
+    typeof artStyle === 'string' && artStyle in ART_STYLES &&
+    typeof ageRange === 'string' && ageRange in AGE_RANGES &&
+    typeof itemCount === 'number' && Number.isInteger(itemCount) && itemCount >= MIN_ITEM_COUNT && itemCount <= MAX_ITEM_COUNT;
+  return valid ? { difficulty, itemCount, artStyle, ageRange } as SceneSettings : undefined;
+};
+
+const readTags = (value: unknown): string[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const tags = [...new Set(value.filter((tag): tag is string => typeof tag === 'string').map(normalizeTag).filter(Boolean))];
+  return tags.length > 0 ? tags.slice(0, MAX_TAGS) : undefined;
+};
+
+// Only known fields are copied across, so a hand-edited file can't smuggle arbitrary data into storage.
+const readBook = (value: unknown, version: number): SavedBook => {
+  if (!isRecord(value)) throw new ArchiveError("The file doesn't contain a book.");
+  if (typeof value.id !== 'string' || !value.id) throw new ArchiveError("The book has no ID.");
+  if (typeof value.title !== 'string') throw new ArchiveError("The book has no title.");
+  if (!Array.isArray(value.pages) || value.pages.length === 0) throw new ArchiveError("The book has no pages.");
+
+  return {
+    id: value.id,
+    title: value.title,
+    pages: value.pages.map(readPage),
+    cast: readCast(value, version),
+    scenery: typeof value.scenery === 'string' ? value.scenery : undefined,
+    synopsis: typeof value.synopsis === 'string' ? value.synopsis : undefined,
+    settings: readSettings(value.settings),
+    tags: readTags(value.tags),
+    createdAt: typeof value.createdAt === 'number' ? value.createdAt : Date.now(),
+  };
+};
+
+export const readBookArchive = async (file: Blob): Promise<SavedBook> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new ArchiveError("This isn't a CrowdQuest book file.");
+  }
+
+  if (!isRecord(parsed) || parsed.format !== ARCHIVE_FORMAT) {
+    throw new ArchiveError("This isn't a CrowdQuest book file.");
+  }
+  if (typeof parsed.version !== 'number' || !Number.isInteger(parsed.version) || parsed.version < 1) {
+    throw new ArchiveError("This book file has an unknown version.");
+  }
+  if (parsed.version > ARCHIVE_VERSION) {
+    throw new ArchiveError("This book was made with a newer version of CrowdQuest. Please update the app to open it.");
+  }
+
+  return readBook(parsed.book, parsed.version);
+};
+
+// Gives an imported book a fresh identity so it can sit next to the copy that is already in the Vault.
+export const asImportedCopy = (book: SavedBook): SavedBook => ({
+  ...book,
+  id: newBookId(),
+  title: `${book.title} (copy)`,
+});
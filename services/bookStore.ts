@@ -0,0 +1,274 @@
+import { BookSummary, SavedBook, QuestPage, Hero, LeaderboardEntry } from '../types.ts';
+import { LEGACY_HERO_NAME, LegacyAnswerKey, castFromTargetImage, upgradeAnswerKey } from './legacy.ts';
+import { createThumbnail } from './media.ts';
+import { summarizeBook } from './library.ts';
+import {
+  openDatabase,
+  requestToPromise,
+  transactionDone,
+  dataUrlToBlob,
+  blobToDataUrl,
+} from './idb.ts';
+
+const DB_NAME = 'crowd_quest';
+const DB_VERSION = 1;
+const BOOKS_STORE = 'books';
+const IMAGES_STORE = 'images';
+
+// The library used to live in one localStorage blob under this key.
+const LEGACY_STORAGE_KEY = 'crowd_quest_library';
+
+// Book metadata is stored without any image data; images live in their own store as Blobs.
+type StoredPage = Omit<QuestPage, 'imageUrl' | 'answerKey' | 'difference'> & {
+  imageKey: string;
+  answerKey?: LegacyAnswerKey;
+  difference?: { alteredImageKey: string };
+};
+
+type StoredHero = Omit<Hero, 'image' | 'sheet'> & { imageKey: string; sheetKey?: string };
+
+type StoredBook = Omit<SavedBook, 'pages' | 'cast' | 'thumbnail'> & {
+  pages: StoredPage[];
+  cast?: StoredHero[];
+  thumbnailKey?: string;
+  // Bytes taken by the book's images; missing on books saved before it was recorded.
+  size?: number;
+  // Single hero photo of books saved before casts existed.
+  targetImageKey?: string | null;
+};
+
+// Shape of books in the old localStorage library.
+type LegacyBook = Omit<SavedBook, 'cast'> & { targetImage: string | null };
+
+export interface StorageUsage {
+  used: number;
+  quota: number;
+}
+
+const imageKeyRange = (bookId: string) => IDBKeyRange.bound(`${bookId}/`, `${bookId}/\uffff`);
+
+export class BookStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(BOOKS_STORE)) {
+          db.createObjectStore(BOOKS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+          db.createObjectStore(IMAGES_STORE);
+        }
+      }).catch((error) => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  // Reads only what the Vault list shows; whole books are read one at a time with loadBook.
+  async listBooks(): Promise<BookSummary[]> {
+    const db = await this.db();
+    const tx = db.transaction([BOOKS_STORE, IMAGES_STORE], 'readonly');
+    const imagesStore = tx.objectStore(IMAGES_STORE);
+    const stored = await requestToPromise(tx.objectStore(BOOKS_STORE).getAll() as IDBRequest<StoredBook[]>);
+
+    const books = await Promise.all(stored.map(async (book) => {
+      // Books saved before thumbnails existed show their first page instead.
+      const thumbnailKey = book.thumbnailKey ?? book.pages[0]?.imageKey;
+      const [thumbnail, size] = await Promise.all([
+        thumbnailKey ? requestToPromise(imagesStore.get(thumbnailKey) as IDBRequest<Blob | undefined>) : undefined,
+        // Blob sizes are known without reading the image data.
+        book.size ?? requestToPromise(imagesStore.getAll(imageKeyRange(book.id)) as IDBRequest<Blob[]>)
+          .then(blobs => blobs.reduce((sum, blob) => sum + blob.size, 0)),
+      ]);
+      return { book, thumbnail, size };
+    }));
+
+    const summaries = await Promise.all(books.map(async ({ book, thumbnail, size }) => {
+      const { pages, cast, targetImageKey, thumbnailKey: _thumbnailKey, size: _size, ...meta } = book;
+      const summary: BookSummary = {
+        ...meta,
+        thumbnail: thumbnail ? await blobToDataUrl(thumbnail) : undefined,
+        pages: pages.map(({ imageKey: _imageKey, answerKey: _answerKey, difference, ...page }) => difference ? { ...page, difference: true } : page),
+        cast: cast
+          ? cast.map(({ imageKey: _imageKey, sheetKey: _sheetKey, ...hero }) => hero)
+          : targetImageKey ? [{ name: LEGACY_HERO_NAME }] : [],
+        size,
+      };
+      return summary;
+    }));
+    return summaries.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  // The whole book with every picture, or null if it is no longer stored.
+  async loadBook(id: string): Promise<SavedBook | null> {
+    const db = await this.db();
+    const tx = db.transaction([BOOKS_STORE, IMAGES_STORE], 'readonly');
+    const imagesStore = tx.objectStore(IMAGES_STORE);
+    const [stored, keys, blobs] = await Promise.all([
+      requestToPromise(tx.objectStore(BOOKS_STORE).get(id) as IDBRequest<StoredBook | undefined>),
+      requestToPromise(imagesStore.getAllKeys(imageKeyRange(id))),
+      requestToPromise(imagesStore.getAll(imageKeyRange(id)) as IDBRequest<Blob[]>),
+    ]);
+    if (!stored) return null;
+
+    const images = new Map<string, Blob>();
+    keys.forEach((key, i) => images.set(String(key), blobs[i]));
+    return this.hydrate(stored, images);
+  }
+
+  // Resolves to the book as the Vault lists it, with its thumbnail brought up to date.
+  async saveBook(book: SavedBook): Promise<BookSummary> {
+    // Blob conversion is async, so it has to finish before the transaction opens or it would auto-commit.
+    const images: [string, Blob][] = [];
+    const pages: StoredPage[] = await Promise.all(book.pages.map(async ({ imageUrl, difference, ...page }, i) => {
+      const imageKey = `${book.id}/page-${i}`;
+      images.push([imageKey, await dataUrlToBlob(imageUrl)]);
+      if (!difference) return { ...page, imageKey };
+      const alteredImageKey = `${book.id}/altered-${i}`;
+      images.push([alteredImageKey, await dataUrlToBlob(difference.alteredImageUrl)]);
+      return { ...page, imageKey, difference: { alteredImageKey } };
+    }));
+
+    const cast: StoredHero[] = await Promise.all(book.cast.map(async ({ image, sheet, ...hero }, i) => {
+      const imageKey = `${book.id}/hero-${i}`;
+      images.push([imageKey, await dataUrlToBlob(image)]);
+      if (!sheet) return { ...hero, imageKey };
+      const sheetKey = `${book.id}/sheet-${i}`;
+      images.push([sheetKey, await dataUrlToBlob(sheet)]);
+      return { ...hero, imageKey, sheetKey };
+    }));
+
+    // A missing thumbnail only means the Vault falls back to the full first page.
+    const firstPage = book.pages[0];
+    const thumbnail = firstPage && await createThumbnail(firstPage.imageUrl).catch((error) => {
+      console.error("Thumbnail creation failed", error);
+      return undefined;
+    });
+    const thumbnailKey = thumbnail ? `${book.id}/thumbnail` : undefined;
+    if (thumbnail && thumbnailKey) images.push([thumbnailKey, await dataUrlToBlob(thumbnail)]);
+
+    const size = images.reduce((sum, [, blob]) => sum + blob.size, 0);
+    const { pages: _pages, cast: _cast, thumbnail: _thumbnail, ...meta } = book;
+    const record: StoredBook = { ...meta, pages, cast, thumbnailKey, size };
+
+    const db = await this.db();
+    const tx = db.transaction([BOOKS_STORE, IMAGES_STORE], 'readwrite');
+    const imagesStore = tx.objectStore(IMAGES_STORE);
+    imagesStore.delete(imageKeyRange(book.id));
+    images.forEach(([key, blob]) => imagesStore.put(blob, key));
+    tx.objectStore(BOOKS_STORE).put(record);
+    await transactionDone(tx);
+    return summarizeBook({ ...book, thumbnail }, size);
+  }
+
+  /**
+   * Records play progress without rewriting any images, so it is cheap enough to call after every find.
+   * Ignored if the stored pages no longer line up, e.g. while a page edit is still being saved.
+   */
+  async saveProgress(book: Pick<SavedBook, 'id' | 'lastPage'> & { pages: Pick<QuestPage, 'progress'>[] }): Promise<void> {
+    const db = await this.db();
+    const tx = db.transaction(BOOKS_STORE, 'readwrite');
+    const store = tx.objectStore(BOOKS_STORE);
+    const record = await requestToPromise(store.get(book.id) as IDBRequest<StoredBook | undefined>);
+    if (record && record.pages.length === book.pages.length) {
+      store.put({
+        ...record,
+        lastPage: book.lastPage,
+        pages: record.pages.map((page, i) => ({ ...page, progress: book.pages[i].progress })),
+      });
+    }
+    await transactionDone(tx);
+  }
+
+  async saveLeaderboard(id: string, leaderboard: LeaderboardEntry[]): Promise<void> {
+    const db = await this.db();
+    const tx = db.transaction(BOOKS_STORE, 'readwrite');
+    const store = tx.objectStore(BOOKS_STORE);
+    const record = await requestToPromise(store.get(id) as IDBRequest<StoredBook | undefined>);
+    if (record) store.put({ ...record, leaderboard });
+    await transactionDone(tx);
+  }
+
+  // Renaming and retagging leave the images alone, so they don't go through saveBook.
+  async saveDetails(id: string, details: Pick<SavedBook, 'title' | 'tags'>): Promise<void> {
+    const db = await this.db();
+    const tx = db.transaction(BOOKS_STORE, 'readwrite');
+    const store = tx.objectStore(BOOKS_STORE);
+    const record = await requestToPromise(store.get(id) as IDBRequest<StoredBook | undefined>);
+    if (record) store.put({ ...record, ...details });
+    await transactionDone(tx);
+  }
+
+  // All in one transaction, so a bulk delete either happens completely or not at all.
+  async deleteBooks(ids: string[]): Promise<void> {
+    const db = await this.db();
+    const tx = db.transaction([BOOKS_STORE, IMAGES_STORE], 'readwrite');
+    ids.forEach(id => {
+      tx.objectStore(BOOKS_STORE).delete(id);
+      tx.objectStore(IMAGES_STORE).delete(imageKeyRange(id));
+    });
+    await transactionDone(tx);
+  }
+
+  // What the browser reports for the whole site; null where the Storage API isn't available.
+  async storageUsage(): Promise<StorageUsage | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage, quota } = await navigator.storage.estimate();
+    return usage === undefined || quota === undefined ? null : { used: usage, quota };
+  }
+
+  /**
+   * Copies a library saved by older versions of the app out of localStorage.
+   * The legacy key is only removed once every book has been written, so a failed
+   * migration (e.g. quota) is retried on the next load.
+   */
+  async migrateLegacyLibrary(): Promise<number> {
+    const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!saved) return 0;
+
+    let legacyBooks: LegacyBook[];
+    try {
+      legacyBooks = JSON.parse(saved);
+    } catch (e) {
+      console.error("Failed to parse legacy library", e);
+      return 0;
+    }
+
+    for (const { targetImage, ...book } of legacyBooks) {
+      await this.saveBook({ ...book, cast: castFromTargetImage(targetImage) });
+    }
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return legacyBooks.length;
+  }
+
+  private async hydrate(book: StoredBook, images: Map<string, Blob>): Promise<SavedBook> {
+    const readImage = async (key: string | null) => {
+      const blob = key ? images.get(key) : undefined;
+      return blob ? blobToDataUrl(blob) : null;
+    };
+
+    const { pages, cast, targetImageKey, thumbnailKey, ...meta } = book;
+    return {
+      ...meta,
+      thumbnail: (await readImage(thumbnailKey ?? null)) ?? undefined,
+      pages: await Promise.all(pages.map(async ({ imageKey, answerKey, difference, ...page }) => ({
+        ...page,
+        imageUrl: (await readImage(imageKey)) || '',
+        answerKey: answerKey && upgradeAnswerKey(answerKey),
+        difference: difference && { alteredImageUrl: (await readImage(difference.alteredImageKey)) || '' },
+      }))),
+      cast: cast
+        ? await Promise.all(cast.map(async ({ imageKey, sheetKey, ...hero }) => ({
+          ...hero,
+          image: (await readImage(imageKey)) || '',
+          sheet: (await readImage(sheetKey ?? null)) ?? undefined,
+        })))
+        : castFromTargetImage(await readImage(targetImageKey ?? null)),
+    };
+  }
+}
+
+export const bookStore = new BookStore();
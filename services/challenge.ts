@@ -0,0 +1,84 @@
+import { ChallengeScope, LeaderboardEntry, PageProgress, QuestPage } from '../types.ts';
+import { pageProgress } from './progress.ts';
+
+export const COUNTDOWN_SECONDS = 3;
+// Added to a player's time for every hint they ask for.
+export const HINT_PENALTY_MS = 15000;
+export const MAX_PLAYERS = 6;
+// Entries kept per board (the whole book, or each single page).
+const LEADERBOARD_SIZE = 10;
+
+export interface ChallengeResult {
+  player: string;
+  timeMs: number;
+  hintsUsed: number;
+  scoreMs: number;
+}
+
+/**
+ * A challenge in progress. Each turn starts from a clean board: what the player finds is kept in
+ * `found` rather than the pages' own progress, so racing never touches a book's saved progress.
+ */
+export interface ChallengeRun {
+  scope: ChallengeScope;
+  // The page a single-page challenge is played on.
+  pageIndex: number;
+  players: string[];
+  // Index into `players` of whoever is playing now.
+  turn: number;
+  phase: 'countdown' | 'playing' | 'turn-over';
+  // When the current turn's timer started.
+  startedAt: number;
+  // This turn's progress by page index.
+  found: Record<number, PageProgress>;
+  results: ChallengeResult[];
+}
+
+export const createChallenge = (players: string[], scope: ChallengeScope, pageIndex: number): ChallengeRun => ({
+  scope,
+  pageIndex,
+  players,
+  turn: 0,
+  phase: 'countdown',
+  startedAt: 0,
+  found: {},
+  results: [],
+});
+
+// The pages a challenge covers.
+export const challengePages = (run: ChallengeRun, pageCount: number): number[] =>
+  run.scope === 'page' ? [run.pageIndex] : Array.from({ length: pageCount }, (_, i) => i);
+
+export const challengeProgress = (run: ChallengeRun, page: QuestPage, pageIndex: number, heroCount: number): PageProgress =>
+  pageProgress({ ...page, progress: run.found[pageIndex] }, heroCount);
+
+// Heroes and items the answer key couldn't place can't be tapped, so they don't have to be found to clear a page.
+export const isPageCleared = (page: QuestPage, progress: PageProgress): boolean => {
+  const answerKey = page.answerKey;
+  if (!answerKey) return false;
+  return answerKey.heroes.every((box, i) => !box || progress.heroesFound[i])
+    && page.questItems.every((_, i) => !answerKey.items[i] || progress.itemsFound[i]);
+};
+
+export const challengeHints = (run: ChallengeRun): number =>
+  Object.values(run.found).reduce((sum, progress) => sum + progress.hintsUsed, 0);
+
+export const scoreTurn = (player: string, timeMs: number, hintsUsed: number): ChallengeResult => ({
+  player,
+  timeMs,
+  hintsUsed,
+  scoreMs: timeMs + hintsUsed * HINT_PENALTY_MS,
+});
+
+const sameBoard = (a: { scope: ChallengeScope; pageNumber?: number }, b: { scope: ChallengeScope; pageNumber?: number }) =>
+  a.scope === b.scope && a.pageNumber === b.pageNumber;
+
+// The entries of one board, best first.
+export const boardEntries = (leaderboard: LeaderboardEntry[], scope: ChallengeScope, pageNumber?: number): LeaderboardEntry[] =>
+  leaderboard.filter(entry => sameBoard(entry, { scope, pageNumber })).sort((a, b) => a.scoreMs - b.scoreMs);
+
+// Adds an entry, keeping only the best few on its board.
+export const addToLeaderboard = (leaderboard: LeaderboardEntry[], entry: LeaderboardEntry): LeaderboardEntry[] => {
+  const board = boardEntries([...leaderboard, entry], entry.scope, entry.pageNumber).slice(0, LEADERBOARD_SIZE);
+  return [...leaderboard.filter(e => !sameBoard(e, entry)), ...board];
+};
@@ -0,0 +1,124 @@
+// What the player can do about a failure; the UI turns each into a tailored button.
+export type RecoveryAction = 'retry' | 'wait' | 'change-photo' | 'change-scene' | 'check-key' | 'check-connection';
+
+/**
+ * Base class for every failure surfaced by the image services. `message` is already written for
+ * players, so the UI can show it as-is; the original error is kept on `cause` for debugging.
+ */
+export class GenerationError extends Error {
+  readonly recovery: RecoveryAction;
+  readonly retryable: boolean;
+
+  constructor(message: string, recovery: RecoveryAction, retryable: boolean, cause?: unknown) {
+    super(message);
+    this.name = 'GenerationError';
+    this.recovery = recovery;
+    this.retryable = retryable;
+    this.cause = cause;
+  }
+}
+
+export class MissingApiKeyError extends GenerationError {
+  constructor() {
+    super("No Gemini API key is configured on the server. Add GEMINI_API_KEY to .env.local and restart the app.", 'check-key', false);
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+export class InvalidApiKeyError extends GenerationError {
+  constructor(cause?: unknown) {
+    super("The Gemini API key was rejected. It may be expired or revoked - check GEMINI_API_KEY in .env.local.", 'check-key', false, cause);
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+export class RateLimitError extends GenerationError {
+  constructor(cause?: unknown) {
+    super("The art studio is swamped right now. Wait a moment and try again.", 'wait', true, cause);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class QuotaExceededError extends GenerationError {
+  constructor(cause?: unknown) {
+    super("This API key has used up its quota. Check your Gemini plan or try again once the quota resets.", 'check-key', false, cause);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class SafetyBlockError extends GenerationError {
+  // 'input' when the request (usually the uploaded photo) was refused, 'output' when the drawing was.
+  readonly stage: 'input' | 'output';
+
+  constructor(stage: 'input' | 'output', cause?: unknown) {
+    super(
+      stage === 'input'
+        ? "The safety filter refused this photo or theme. Try a different photo of the hero."
+        : "The picture was blocked by the safety filter. Try a different adventure theme.",
+      stage === 'input' ? 'change-photo' : 'change-scene',
+      stage === 'output',
+      cause
+    );
+    this.name = 'SafetyBlockError';
+    this.stage = stage;
+  }
+}
+
+export class NoImageError extends GenerationError {
+  constructor(cause?: unknown) {
+    super("The model answered without drawing a picture. Please try again.", 'retry', true, cause);
+    this.name = 'NoImageError';
+  }
+}
+
+export class ImageTooLargeError extends GenerationError {
+  constructor(cause?: unknown) {
+    super("These pictures are too big to send in one go. Try fewer heroes or smaller photos.", 'change-photo', false, cause);
+    this.name = 'ImageTooLargeError';
+  }
+}
+
+export class NetworkError extends GenerationError {
+  constructor(cause?: unknown) {
+    super("Couldn't reach the art studio. Check your internet connection and try again.", 'check-connection', true, cause);
+    this.name = 'NetworkError';
+  }
+}
+
+const statusOf = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+/**
+ * Maps whatever a provider threw (HTTP errors from the SDK, fetch failures, ...) onto the taxonomy above.
+ * Abort errors pass through untouched so cancellation keeps working.
+ */
+export const toGenerationError = (error: unknown): Error => {
+  if (error instanceof GenerationError) return error;
+  if (error instanceof DOMException && error.name === 'AbortError') return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = statusOf(error);
+
+  if (status === 401 || status === 403 || /api key not valid|api_key_invalid|permission denied/i.test(message)) {
+    return new InvalidApiKeyError(error);
+  }
+  if (status === 413) {
+    return new ImageTooLargeError(error);
+  }
+  if (status === 429 || /resource_exhausted|rate limit/i.test(message)) {
+    return /quota/i.test(message) ? new QuotaExceededError(error) : new RateLimitError(error);
+  }
+  // fetch rejects with a TypeError, but so does any bug; only the browsers' fetch-failure wording means "offline".
+  if (/failed to fetch|fetch failed|networkerror|network request failed|load failed/i.test(message)) {
+    return new NetworkError(error);
+  }
+  if (status !== undefined && status >= 500) {
+    return new GenerationError("The art studio hit a snag on its end. Please try again.", 'retry', true, error);
+  }
+  return new GenerationError("Something went wrong while drawing. Please try again.", 'retry', true, error);
+};
+
+export const isRetryableError = (error: unknown): boolean =>
+  !(error instanceof GenerationError) || error.retryable;
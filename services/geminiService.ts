@@ -1,147 +1,209 @@
+import { AnswerKey, BoundingBox, Hero, QuestPage, SceneSettings } from '../types.ts';
+import { DifferenceResult, GenerationResult, ImageProvider, ItemLocation, RequestOptions, Storyline } from './providers/imageProvider.ts';
+import { GenerationError, toGenerationError } from './errors.ts';
+import { DEFAULT_SCENE_SETTINGS } from './promptBuilder.ts';
+import { compressForStorage } from './media.ts';
+import { GeminiProvider } from './providers/geminiProvider.ts';
+import { LocalProvider } from './providers/localProvider.ts';
 
-import { GoogleGenAI, Type } from "@google/genai";
+export type { GenerationResult, ImageProvider, RequestOptions, Storyline } from './providers/imageProvider.ts';
 
-export interface GenerationResult {
-  imageUrl: string;
-  questItems: string[];
-}
+// Items located with less confidence than this are treated as never drawn.
+const MIN_ITEM_CONFIDENCE = 0.5;
 
 export class GeminiService {
-  private ai: GoogleGenAI;
+  private provider: ImageProvider;
 
-  constructor() {
-    this.ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+  constructor(provider: ImageProvider) {
+    this.provider = provider;
   }
 
-  async generateWaldoImage(base64Image: string, scenery: string): Promise<GenerationResult> {
-    const prompt = `
-      Create a high-detail, dense, and complex "Where's Wally" (Where's Waldo) style cartoon illustration.
-      
-      THE TARGET: Convert the person in the provided photo into a distinct cartoon character. 
-      Keep their hair color, hairstyle, and facial structure (translated to cartoon style). 
-      Dress them in a very distinct, bright outfit (e.g. bold patterns, unique hat) so they can be identified.
-      
-      THE SCENE: Place this character within a massive, crowded scene set in: ${scenery}.
-      
-      THE CROWD: Fill the entire image with hundreds of other unique, colorful, and diverse cartoon characters performing various funny actions. 
-      Add complex backgrounds, vehicles, and buildings relevant to the ${scenery} theme.
-      
-      SPECIAL THEMED CHARACTERS: Include at least 5 unique "easter egg" characters or objects specifically related to the "${scenery}" theme (e.g., if it's Space, include a space-dog, a floating pizza, a specific alien thief, etc.).
-      
-      STYLE: Traditional 2D hand-drawn cartoon style with clean lines and vibrant colors. 
-      
-      OUTPUT: In addition to the image, provide a JSON list of 5 specific themed items or characters you added to the scene for the user to find (not including the main target person).
-      Format the text part of your response as a valid JSON array of strings, like this: ["a blue cat with a jetpack", "a spilled ice cream cone", ...].
-    `;
+  get providerName(): string {
+    return this.provider.name;
+  }
 
-    try {
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: {
-          parts: [
-            {
-              inlineData: {
-                data: base64Image.split(',')[1],
-                mimeType: 'image/png',
-              },
-            },
-            {
-              text: prompt,
-            },
-          ],
-        },
-        config: {
-          imageConfig: {
-            aspectRatio: "16:9"
-          }
-        }
-      });
-
-      let imageUrl = '';
-      let questItems: string[] = [];
-
-      if (response.candidates && response.candidates[0].content.parts) {
-        for (const part of response.candidates[0].content.parts) {
-          if (part.inlineData) {
-            imageUrl = `data:image/png;base64,${part.inlineData.data}`;
-          } else if (part.text) {
-            try {
-              // Extract JSON from the text response if it's wrapped in markdown or just raw
-              const jsonMatch = part.text.match(/\[.*\]/s);
-              if (jsonMatch) {
-                questItems = JSON.parse(jsonMatch[0]);
-              }
-            } catch (e) {
-              console.error("Failed to parse quest items JSON", e);
-            }
-          }
-        }
-      }
+  setProvider(provider: ImageProvider) {
+    this.provider = provider;
+  }
 
-      if (!imageUrl) {
-        throw new Error("No image was generated by the model.");
-      }
+  // Designs the cartoon version of a hero that every page of the book copies.
+  async generateCharacterSheet(hero: Hero, heroIndex: number, settings: SceneSettings, options: RequestOptions = {}): Promise<string> {
+    let sheet: string;
+    try {
+      sheet = await this.provider.generateCharacterSheet(hero, heroIndex, settings, options);
+    } catch (error) {
+      throw toGenerationError(error);
+    }
+    return compressForStorage(sheet);
+  }
 
-      // Fallback items if JSON parsing fails
-      if (questItems.length === 0) {
-        questItems = ["A hidden treasure", "A funny character", "Something out of place", "A themed animal", "A secret symbol"];
-      }
+  // Plans a story-mode book: a title, a synopsis, and the scene and caption for each page.
+  async writeStory(cast: Hero[], scenery: string, pageCount: number, settings: SceneSettings, options: RequestOptions = {}): Promise<Storyline> {
+    try {
+      return await this.provider.writeStory(cast, scenery, pageCount, settings, options);
+    } catch (error) {
+      throw toGenerationError(error);
+    }
+  }
 
-      return { imageUrl, questItems };
+  // Generates a page and immediately locates everything on it, so hints and tap checks never need the network.
+  async generateWaldoImage(
+    cast: Hero[],
+    scene: string,
+    settings: SceneSettings = DEFAULT_SCENE_SETTINGS,
+    options: RequestOptions = {}
+  ): Promise<QuestPage> {
+    let generated: GenerationResult;
+    try {
+      generated = await this.provider.generateScene(cast, scene, settings, options);
     } catch (error) {
-      console.error("Gemini Generation Error:", error);
-      throw error;
+      throw toGenerationError(error);
     }
+
+    // Compressed before anything is located, so the answer key is checked against the picture that gets kept.
+    const imageUrl = await compressForStorage(generated.imageUrl);
+    const claimedItems = generated.questItems;
+    const [heroes, verified] = await Promise.all([
+      this.locateHeroes(cast, imageUrl, options).catch(this.degrade(cast.map(() => null), options)),
+      this.verifyQuestItems(imageUrl, claimedItems, settings.itemCount, options),
+    ]);
+
+    return {
+      imageUrl,
+      questItems: verified.map(v => v.label),
+      prompt: scene,
+      answerKey: {
+        heroes,
+        items: verified.map(v => v.box),
+        itemConfidence: verified.map(v => v.confidence),
+      },
+    };
   }
 
-  async locateTarget(targetBase64: string, generatedBase64: string): Promise<[number, number, number, number] | null> {
-    const prompt = "The first image is a reference photo. The second is a dense illustration. Find the person from the first photo drawn as a cartoon in the second. Return ONLY the bounding box [ymin, xmin, ymax, xmax] as normalized values 0-1000.";
+  /**
+   * Builds a spot-the-difference page from a classic one. Only changes that can be located make it
+   * into the puzzle, since a difference nobody can tap would make the page impossible to finish.
+   */
+  async createDifferencePage(page: QuestPage, settings: SceneSettings = DEFAULT_SCENE_SETTINGS, options: RequestOptions = {}): Promise<QuestPage> {
+    let edited: DifferenceResult;
+    try {
+      edited = await this.provider.createDifferences(page.imageUrl, settings.itemCount, settings, options);
+    } catch (error) {
+      throw toGenerationError(error);
+    }
 
+    let locations: ItemLocation[];
     try {
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: {
-          parts: [
-            {
-              inlineData: {
-                data: targetBase64.split(',')[1],
-                mimeType: 'image/png',
-              },
-            },
-            {
-              inlineData: {
-                data: generatedBase64.split(',')[1],
-                mimeType: 'image/png',
-              },
-            },
-            { text: prompt }
-          ]
-        },
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              box_2d: {
-                type: Type.ARRAY,
-                items: { type: Type.NUMBER },
-              }
-            },
-            required: ["box_2d"]
-          }
-        }
-      });
-
-      const result = JSON.parse(response.text || '{}');
-      if (result.box_2d && result.box_2d.length === 4) {
-        return result.box_2d;
+      locations = edited.changes.length > 0
+        ? await this.provider.locateDifferences(page.imageUrl, edited.imageUrl, edited.changes, options)
+        : [];
+    } catch (error) {
+      throw toGenerationError(error);
+    }
+
+    const changes = edited.changes
+      .map((label, i) => ({ label, ...locations[i] }))
+      .filter(change => change.box !== null && change.confidence >= MIN_ITEM_CONFIDENCE)
+      .slice(0, settings.itemCount);
+    if (changes.length === 0) {
+      throw new GenerationError("Couldn't make any differences we could check. Please try again.", 'retry', true, edited.changes);
+    }
+
+    return {
+      imageUrl: page.imageUrl,
+      questItems: changes.map(change => change.label),
+      prompt: page.prompt,
+      caption: page.caption,
+      difference: { alteredImageUrl: await compressForStorage(edited.imageUrl) },
+      answerKey: {
+        heroes: [],
+        items: changes.map(change => change.box),
+        itemConfidence: changes.map(change => change.confidence),
+      },
+    };
+  }
+
+  /**
+   * Keeps only the claimed items that can actually be located on the page, then tops the
+   * list back up with things the vision model can see so kids never hunt for something undrawn.
+   */
+  async verifyQuestItems(generatedBase64: string, claimedItems: string[], itemCount: number, options: RequestOptions = {}) {
+    const locations = await this.locateItems(generatedBase64, claimedItems, options).catch(this.degrade(null, options));
+    if (!locations) {
+      // Verification itself failed; keep the claims unverified so they can still be ticked off by hand.
+      return claimedItems.slice(0, itemCount).map(label => ({ label, box: null, confidence: 0 }));
+    }
+
+    const verified = claimedItems
+      .map((label, i) => ({ label, ...locations[i] }))
+      .filter(item => item.box !== null && item.confidence >= MIN_ITEM_CONFIDENCE)
+      .slice(0, itemCount);
+
+    const missing = itemCount - verified.length;
+    if (missing > 0) {
+      try {
+        const replacements = await this.provider.discoverItems(generatedBase64, missing, verified.map(v => v.label), options);
+        verified.push(...replacements.filter(item => item.confidence >= MIN_ITEM_CONFIDENCE).slice(0, missing));
+      } catch (error) {
+        options.signal?.throwIfAborted();
+        console.error("Quest item replacement failed:", error);
       }
-      return null;
+    }
+    return verified;
+  }
+
+  // Once a picture exists, failing to analyse it shouldn't throw the picture away - unless the job was cancelled.
+  private degrade<T>(fallback: T, options: RequestOptions) {
+    return (error: unknown): T => {
+      options.signal?.throwIfAborted();
+      console.error("Page analysis failed:", error);
+      return fallback;
+    };
+  }
+
+  async buildAnswerKey(cast: Hero[], generatedBase64: string, questItems: string[]): Promise<AnswerKey> {
+    const [heroes, locations] = await Promise.all([
+      this.locateHeroes(cast, generatedBase64),
+      this.locateItems(generatedBase64, questItems),
+    ]);
+    return {
+      heroes,
+      items: locations.map(l => l.confidence >= MIN_ITEM_CONFIDENCE ? l.box : null),
+      itemConfidence: locations.map(l => l.confidence),
+    };
+  }
+
+  async locateHeroes(cast: Hero[], generatedBase64: string, options: RequestOptions = {}): Promise<(BoundingBox | null)[]> {
+    if (cast.length === 0) return [];
+    return this.provider.locateHeroes(cast, generatedBase64, options);
+  }
+
+  async locateItems(generatedBase64: string, items: string[], options: RequestOptions = {}): Promise<ItemLocation[]> {
+    if (items.length === 0) return [];
+    return this.provider.locateItems(generatedBase64, items, options);
+  }
+
+  // Where the face is in a hero photo, to suggest a crop.
+  async locateFace(photo: string, options: RequestOptions = {}): Promise<BoundingBox | null> {
+    try {
+      return await this.provider.locateFace(photo, options);
     } catch (error) {
-      console.error("Locate Target Error:", error);
-      return null;
+      throw toGenerationError(error);
     }
   }
 }
 
-export const geminiService = new GeminiService();
+// IMAGE_PROVIDER=local in .env.local switches to the offline provider.
+export const createProvider = (name = process.env.IMAGE_PROVIDER): ImageProvider => {
+  switch (name) {
+    case 'local':
+      return new LocalProvider();
+    default:
+      if (name && name !== 'gemini') {
+        console.warn(`Unknown image provider "${name}", falling back to Gemini.`);
+      }
+      return new GeminiProvider();
+  }
+};
+
+export const geminiService = new GeminiService(createProvider());
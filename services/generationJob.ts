@@ -0,0 +1,93 @@
+export type PageJobStatus = 'queued' | 'generating' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+export interface PageJobSlot<T> {
+  status: PageJobStatus;
+  attempts: number;
+  error?: Error;
+  result?: T;
+}
+
+export interface GenerationJobOptions<T> {
+  signal: AbortSignal;
+  onUpdate: (index: number, slot: PageJobSlot<T>) => void;
+  // How many pages are generated at the same time.
+  concurrency?: number;
+  maxAttempts?: number;
+  // First retry waits this long; each further retry doubles it.
+  baseDelayMs?: number;
+  // Failures this rejects are reported as 'failed' straight away instead of being retried.
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const abortableDelay = (ms: number, signal: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timeout = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+/**
+ * Runs `task` for each page index with limited concurrency, retrying failures with exponential
+ * backoff. Every state change is reported through `onUpdate`, so callers can keep whatever pages
+ * succeeded even if others fail or the whole job is cancelled.
+ */
+export const runGenerationJob = async <T>(
+  indices: number[],
+  task: (index: number, signal: AbortSignal) => Promise<T>,
+  { signal, onUpdate, concurrency = 2, maxAttempts = 3, baseDelayMs = 1500, shouldRetry = () => true }: GenerationJobOptions<T>
+): Promise<void> => {
+  const queue = [...indices];
+  indices.forEach(index => onUpdate(index, { status: 'queued', attempts: 0 }));
+
+  const runPage = async (index: number) => {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      onUpdate(index, { status: 'generating', attempts: attempt });
+      try {
+        const result = await task(index, signal);
+        onUpdate(index, { status: 'done', attempts: attempt, result });
+        return;
+      } catch (caught) {
+        if (signal.aborted || isAbortError(caught)) {
+          onUpdate(index, { status: 'cancelled', attempts: attempt });
+          return;
+        }
+        const error = caught instanceof Error ? caught : new Error("Failed to generate this page.");
+        if (attempt === maxAttempts || !shouldRetry(caught)) {
+          onUpdate(index, { status: 'failed', attempts: attempt, error });
+          return;
+        }
+        onUpdate(index, { status: 'retrying', attempts: attempt, error });
+        try {
+          // Jitter keeps concurrent retries from hammering the API in lockstep.
+          await abortableDelay(baseDelayMs * 2 ** (attempt - 1) + Math.random() * 250, signal);
+        } catch {
+          onUpdate(index, { status: 'cancelled', attempts: attempt });
+          return;
+        }
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (queue.length > 0 && !signal.aborted) {
+      await runPage(queue.shift()!);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+  queue.forEach(index => onUpdate(index, { status: 'cancelled', attempts: 0 }));
+};
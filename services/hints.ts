@@ -0,0 +1,64 @@
+import { BoundingBox } from '../types.ts';
+import { NormalizedPoint } from '../utils/geometry.ts';
+
+// What a hint points at: a hero (by cast index) or a quest item (by questItems index).
+export interface HintTarget {
+  kind: 'hero' | 'item';
+  index: number;
+}
+
+/**
+ * Each hint asked for the same target climbs one rung:
+ * 1. the quarter of the page it is in,
+ * 2. a smaller region inside that quarter,
+ * 3. a warmer/colder reading that follows the pointer,
+ * 4. the exact spot.
+ */
+export type HintLevel = 1 | 2 | 3 | 4;
+export const MAX_HINT_LEVEL: HintLevel = 4;
+
+export const HINT_LABELS: Record<HintLevel, string> = {
+  1: 'Somewhere in this quarter',
+  2: 'Look closer in here',
+  3: 'Follow the temperature',
+  4: 'Spotted',
+};
+
+export const sameTarget = (a: HintTarget, b: HintTarget) => a.kind === b.kind && a.index === b.index;
+
+const boxCenter = (box: BoundingBox): NormalizedPoint => ({ x: (box[1] + box[3]) / 2, y: (box[0] + box[2]) / 2 });
+
+// Size (0-1000 units) of the grid cell highlighted at levels 1 and 2.
+const REGION_SIZES: Record<1 | 2, number> = { 1: 500, 2: 250 };
+
+// The grid cell holding the centre of the target; cells don't depend on the target's size, so they don't give it away.
+export const hintRegion = (box: BoundingBox, level: 1 | 2): BoundingBox => {
+  const size = REGION_SIZES[level];
+  const center = boxCenter(box);
+  const top = Math.min(1000 - size, Math.floor(center.y / size) * size);
+  const left = Math.min(1000 - size, Math.floor(center.x / size) * size);
+  return [top, left, top + size, left + size];
+};
+
+export interface Temperature {
+  label: string;
+  icon: string;
+  // Tailwind background class for the indicator.
+  color: string;
+}
+
+// Readings from hottest to coldest, with the distance (0-1000 units) each applies up to.
+const TEMPERATURES: (Temperature & { within: number })[] = [
+  { within: 40, label: 'Burning hot!', icon: 'fa-fire', color: 'bg-red-600' },
+  { within: 100, label: 'Hot', icon: 'fa-temperature-full', color: 'bg-orange-500' },
+  { within: 200, label: 'Warm', icon: 'fa-temperature-half', color: 'bg-amber-400' },
+  { within: 350, label: 'Cool', icon: 'fa-temperature-quarter', color: 'bg-sky-400' },
+  { within: 550, label: 'Cold', icon: 'fa-temperature-empty', color: 'bg-blue-500' },
+  { within: Infinity, label: 'Freezing', icon: 'fa-snowflake', color: 'bg-indigo-700' },
+];
+
+export const hintTemperature = (point: NormalizedPoint, box: BoundingBox): Temperature => {
+  const center = boxCenter(box);
+  const distance = Math.hypot(point.x - center.x, point.y - center.y);
+  return TEMPERATURES.find(t => distance <= t.within)!;
+};
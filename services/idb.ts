@@ -0,0 +1,65 @@
+export class StorageQuotaError extends Error {
+  constructor(message = "Browser storage is full.") {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+const isQuotaError = (error: unknown): boolean => {
+  if (!(error instanceof DOMException)) return false;
+  return error.name === 'QuotaExceededError' || error.code === 22;
+};
+
+// Normalizes the many shapes a quota failure can take (request error, transaction abort) into one error type.
+export const toStorageError = (error: unknown): Error => {
+  if (isQuotaError(error)) return new StorageQuotaError();
+  if (error instanceof Error) return error;
+  return new Error("Unexpected storage failure.");
+};
+
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number) => void
+): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this browser."));
+      return;
+    }
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(toStorageError(request.error));
+    request.onblocked = () => reject(new Error("Storage is locked by another open tab."));
+  });
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(toStorageError(request.error));
+  });
+};
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(toStorageError(tx.error));
+    tx.onabort = () => reject(toStorageError(tx.error));
+  });
+};
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
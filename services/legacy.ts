@@ -0,0 +1,15 @@
+import { AnswerKey, BoundingBox, Hero } from '../types.ts';
+
+// Books made before casts existed had one unnamed hero.
+export const LEGACY_HERO_NAME = 'Hero';
+
+export type LegacyAnswerKey = Omit<AnswerKey, 'heroes'> & { heroes?: (BoundingBox | null)[]; hero?: BoundingBox | null };
+
+// Older answer keys held a single `hero` box instead of one per cast member.
+export const upgradeAnswerKey = ({ hero, heroes, ...rest }: LegacyAnswerKey): AnswerKey => ({
+  ...rest,
+  heroes: heroes ?? [hero ?? null],
+});
+
+export const castFromTargetImage = (targetImage: string | null | undefined): Hero[] =>
+  targetImage ? [{ name: LEGACY_HERO_NAME, image: targetImage }] : [];
@@ -0,0 +1,78 @@
+import { BookSummary, PageSummary, QuestPage, SavedBook } from '../types.ts';
+import { bookCompletion } from './progress.ts';
+
+export type LibrarySort = 'newest' | 'oldest' | 'title' | 'completion';
+
+export const LIBRARY_SORTS: Record<LibrarySort, string> = {
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  title: 'Title (A-Z)',
+  completion: 'Least finished first',
+};
+
+export interface LibraryFilter {
+  query: string;
+  // Only books carrying this tag; null shows every book.
+  tag: string | null;
+  sort: LibrarySort;
+}
+
+export const MAX_TAGS = 8;
+const MAX_TAG_LENGTH = 24;
+
+export const newBookId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Tags are compared case-insensitively, so "Beach" and "beach " end up as one tag.
+export const normalizeTag = (tag: string): string =>
+  tag.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH);
+
+// Every tag in use, for the tag filter.
+export const libraryTags = (books: BookSummary[]): string[] =>
+  [...new Set(books.flatMap(book => book.tags ?? []))].sort();
+
+// Every search word has to appear in the title, theme, or one of the quest items.
+const matchesQuery = (book: BookSummary, query: string): boolean => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+  const text = [book.title, book.scenery ?? '', ...book.pages.flatMap(page => page.questItems)].join('\n').toLowerCase();
+  return words.every(word => text.includes(word));
+};
+
+const SORTERS: Record<LibrarySort, (a: BookSummary, b: BookSummary) => number> = {
+  newest: (a, b) => b.createdAt - a.createdAt,
+  oldest: (a, b) => a.createdAt - b.createdAt,
+  title: (a, b) => a.title.localeCompare(b.title, undefined, { sensitivity: 'base' }),
+  completion: (a, b) => bookCompletion(a) - bookCompletion(b),
+};
+
+export const filterBooks = (books: BookSummary[], { query, tag, sort }: LibraryFilter): BookSummary[] =>
+  books
+    .filter(book => (!tag || book.tags?.includes(tag)) && matchesQuery(book, query))
+    .sort(SORTERS[sort]);
+
+// A copy to play through again from the start, so progress and scores are left behind.
+export const asDuplicate = ({ lastPage: _lastPage, leaderboard: _leaderboard, ...book }: SavedBook): SavedBook => ({
+  ...book,
+  id: newBookId(),
+  title: `${book.title} (copy)`,
+  pages: book.pages.map(({ progress: _progress, ...page }) => page),
+  createdAt: Date.now(),
+});
+
+export const summarizePage = ({ imageUrl: _imageUrl, answerKey: _answerKey, difference, ...page }: QuestPage): PageSummary =>
+  difference ? { ...page, difference: true } : page;
+
+// What the Vault keeps in memory for a book it has just written; `size` is what the stored images take up.
+export const summarizeBook = ({ pages, cast, ...book }: SavedBook, size: number): BookSummary => ({
+  ...book,
+  pages: pages.map(summarizePage),
+  cast: cast.map(({ image: _image, sheet: _sheet, ...hero }) => hero),
+  size,
+});
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
@@ -0,0 +1,173 @@
+import { BoundingBox } from '../types.ts';
+import { ImageTooLargeError } from './errors.ts';
+import { ExifOrientation, applyExifOrientation, readExifOrientation } from '../utils/exif.ts';
+
+/**
+ * Every image in the app is a base64 data URL. This module is the one place that looks inside them:
+ * reading the real MIME type, re-encoding for storage, making thumbnails, and keeping model requests
+ * under the size limits.
+ */
+
+export interface InlineImage {
+  mimeType: string;
+  // Base64 payload, without the `data:...,` header.
+  data: string;
+}
+
+interface EncodeOptions {
+  // Longest side in pixels; smaller images are never scaled up.
+  maxDimension: number;
+  type: 'image/webp' | 'image/jpeg';
+  quality: number;
+}
+
+// Photos as they come in, before cropping; big enough that a face in a group shot keeps its detail.
+const CAPTURE_IMAGE: EncodeOptions = { maxDimension: 2400, type: 'image/jpeg', quality: 0.9 };
+// Cropped hero photos.
+const UPLOAD_IMAGE: EncodeOptions = { maxDimension: 1200, type: 'image/jpeg', quality: 0.85 };
+// Generated pages and character sheets as they are kept in the Vault.
+const STORED_IMAGE: EncodeOptions = { maxDimension: 2048, type: 'image/webp', quality: 0.85 };
+// Covers in the Vault list, drawn at 56px; twice that stays sharp on high-DPI screens.
+const THUMBNAIL_IMAGE: EncodeOptions = { maxDimension: 160, type: 'image/webp', quality: 0.7 };
+// Images too big (or in a format the model can't read) are re-encoded with this before sending.
+const MODEL_IMAGE: EncodeOptions = { maxDimension: 1536, type: 'image/jpeg', quality: 0.85 };
+
+// Formats the Gemini models accept as inline data.
+const MODEL_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+const MAX_MODEL_IMAGE_BYTES = 4 * 1024 * 1024;
+// Counted in base64 characters; inline requests are capped at 20 MB, which leaves room for the prompt.
+const MAX_MODEL_REQUEST_BYTES = 14 * 1024 * 1024;
+
+// Already-lossy formats are left alone so saving a book again doesn't degrade its pictures.
+const COMPRESSED_TYPES = ['image/webp', 'image/jpeg'];
+
+const DATA_URL_PATTERN = /^data:([\w.+-]+\/[\w.+-]+)((?:;[\w=.+-]+)*?);base64,(.*)$/s;
+
+export const parseDataUrl = (dataUrl: string): InlineImage => {
+  const match = DATA_URL_PATTERN.exec(dataUrl);
+  if (!match) throw new Error("Not a base64 data URL.");
+  return { mimeType: match[1].toLowerCase(), data: match[3] };
+};
+
+export const toDataUrl = ({ mimeType, data }: InlineImage): string => `data:${mimeType};base64,${data}`;
+
+export const mimeTypeOf = (dataUrl: string): string | null => DATA_URL_PATTERN.exec(dataUrl)?.[1].toLowerCase() ?? null;
+
+// Decoded size of a data URL's payload; close enough to what its Blob takes up in storage.
+export const dataUrlBytes = (dataUrl: string | undefined): number => {
+  if (!dataUrl) return 0;
+  const payload = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  return Math.floor(payload.length * 3 / 4);
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode the image."));
+    img.src = src;
+  });
+};
+
+interface DrawOptions {
+  // Part of the image to keep, normalized 0-1000 like answer boxes.
+  crop?: BoundingBox;
+  // Turn to apply, for browsers that don't honour EXIF orientation themselves.
+  orientation?: ExifOrientation;
+}
+
+const encodeImage = async (
+  src: string,
+  { maxDimension, type, quality }: EncodeOptions,
+  { crop = [0, 0, 1000, 1000], orientation = 1 }: DrawOptions = {}
+): Promise<string> => {
+  const img = await loadImage(src);
+  // SVGs without explicit dimensions report 0; the pages are 16:9.
+  const naturalWidth = img.naturalWidth || 1600;
+  const naturalHeight = img.naturalHeight || 900;
+  const sx = (crop[1] / 1000) * naturalWidth;
+  const sy = (crop[0] / 1000) * naturalHeight;
+  const sw = ((crop[3] - crop[1]) / 1000) * naturalWidth;
+  const sh = ((crop[2] - crop[0]) / 1000) * naturalHeight;
+  const scale = Math.min(1, maxDimension / Math.max(sw, sh));
+  const width = Math.max(1, Math.round(sw * scale));
+  const height = Math.max(1, Math.round(sh * scale));
+
+  const sideways = orientation >= 5;
+  const canvas = document.createElement('canvas');
+  canvas.width = sideways ? height : width;
+  canvas.height = sideways ? width : height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available.");
+  // Neither format keeps transparency well; white matches the page background.
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  applyExifOrientation(ctx, orientation, width, height);
+  ctx.drawImage(img, sx, sy, sw, sh, 0, 0, width, height);
+
+  const encoded = canvas.toDataURL(type, quality);
+  // Browsers that can't write WebP silently hand back a PNG instead.
+  return mimeTypeOf(encoded) === type ? encoded : canvas.toDataURL('image/jpeg', quality);
+};
+
+// Current browsers turn images upright on their own; the CSS property shipped at the same time.
+const browserAppliesOrientation = () => typeof CSS !== 'undefined' && CSS.supports('image-orientation', 'from-image');
+
+/**
+ * Reads a dropped, pasted or picked photo, checking it really is an image whatever its name says,
+ * and turns it upright so sideways phone pictures don't reach the model that way.
+ */
+export const readImageFile = async (file: Blob): Promise<string> => {
+  if (file.type && !file.type.startsWith('image/')) {
+    throw new Error(`Unsupported file type: ${file.type}`);
+  }
+  // EXIF lives near the start of the file.
+  const orientation = browserAppliesOrientation() ? 1 : readExifOrientation(await file.slice(0, 128 * 1024).arrayBuffer());
+  const url = URL.createObjectURL(file);
+  try {
+    return await encodeImage(url, CAPTURE_IMAGE, { orientation });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Cuts the chosen frame out of a captured photo and sizes it for a hero reference.
+export const cropImage = (src: string, crop: BoundingBox): Promise<string> => encodeImage(src, UPLOAD_IMAGE, { crop });
+
+/**
+ * Re-encodes a freshly generated raster image for keeping. SVG pages from the local provider are
+ * kept as they are, since their answer metadata lives inside the markup.
+ */
+export const compressForStorage = async (dataUrl: string): Promise<string> => {
+  const mimeType = mimeTypeOf(dataUrl);
+  if (!mimeType || mimeType === 'image/svg+xml' || COMPRESSED_TYPES.includes(mimeType)) return dataUrl;
+  try {
+    const compressed = await encodeImage(dataUrl, STORED_IMAGE);
+    return dataUrlBytes(compressed) < dataUrlBytes(dataUrl) ? compressed : dataUrl;
+  } catch (error) {
+    console.error("Image compression failed:", error);
+    return dataUrl;
+  }
+};
+
+export const createThumbnail = (dataUrl: string): Promise<string> => encodeImage(dataUrl, THUMBNAIL_IMAGE);
+
+/**
+ * Turns images into inline parts for one model request. Each image is shrunk if it is too big or in
+ * a format the model can't read; if the request as a whole is still over the limit it isn't sent.
+ */
+export const prepareModelImages = async (dataUrls: string[]): Promise<InlineImage[]> => {
+  const images = await Promise.all(dataUrls.map(async (dataUrl) => {
+    const image = parseDataUrl(dataUrl);
+    if (MODEL_IMAGE_TYPES.includes(image.mimeType) && dataUrlBytes(dataUrl) <= MAX_MODEL_IMAGE_BYTES) {
+      return image;
+    }
+    return parseDataUrl(await encodeImage(dataUrl, MODEL_IMAGE));
+  }));
+
+  const total = images.reduce((sum, image) => sum + image.data.length, 0);
+  if (total > MAX_MODEL_REQUEST_BYTES) {
+    throw new ImageTooLargeError({ bytes: total, limit: MAX_MODEL_REQUEST_BYTES });
+  }
+  return images;
+};
@@ -0,0 +1,289 @@
+import { jsPDF } from 'jspdf';
+import { BoundingBox, SavedBook } from '../types.ts';
+
+export type PdfPageSize = 'a4' | 'letter' | 'square';
+
+// Dimensions in millimetres. A4 and Letter are landscape to suit the 16:9 scenes.
+export const PDF_PAGE_SIZES: Record<PdfPageSize, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 297, height: 210 },
+  letter: { label: 'US Letter', width: 279.4, height: 215.9 },
+  square: { label: 'Square Photobook', width: 203.2, height: 203.2 },
+};
+
+const MARGIN = 12;
+const INDIGO: [number, number, number] = [79, 70, 229];
+const EMERALD: [number, number, number] = [16, 185, 129];
+const SLATE: [number, number, number] = [51, 65, 85];
+
+interface RasterImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+// jsPDF only embeds JPEG/PNG, so every image (including SVG pages) is flattened through a canvas first.
+const rasterize = (src: string): Promise<RasterImage> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth || 1600;
+      canvas.height = img.naturalHeight || 900;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error("Canvas is not available."));
+        return;
+      }
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve({ dataUrl: canvas.toDataURL('image/jpeg', 0.92), width: canvas.width, height: canvas.height });
+    };
+    img.onerror = () => reject(new Error("Could not load an image for the PDF."));
+    img.src = src;
+  });
+};
+
+// Largest rect with the image's aspect ratio that fits the box, centred horizontally.
+const fitImage = (image: RasterImage, x: number, y: number, maxWidth: number, maxHeight: number) => {
+  const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+  return { x: x + (maxWidth - width) / 2, y, width, height };
+};
+
+const circleBox = (
+  doc: jsPDF,
+  box: BoundingBox,
+  area: { x: number; y: number; width: number; height: number },
+  label: string,
+  color: [number, number, number]
+) => {
+  const [ymin, xmin, ymax, xmax] = box;
+  const left = area.x + (xmin / 1000) * area.width;
+  const top = area.y + (ymin / 1000) * area.height;
+  const width = ((xmax - xmin) / 1000) * area.width;
+  const height = ((ymax - ymin) / 1000) * area.height;
+  // A little breathing room so the line doesn't cover what it is pointing at.
+  const rx = Math.max(width / 2 + 1.5, 3);
+  const ry = Math.max(height / 2 + 1.5, 3);
+  const cx = left + width / 2;
+  const cy = top + height / 2;
+
+  doc.setDrawColor(...color);
+  doc.setLineWidth(0.8);
+  doc.ellipse(cx, cy, rx, ry, 'S');
+
+  doc.setFillColor(...color);
+  doc.circle(cx + rx, cy - ry, 2.4, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(7);
+  doc.setFont('helvetica', 'bold');
+  doc.text(label, cx + rx, cy - ry + 0.9, { align: 'center' });
+};
+
+const drawCover = (doc: jsPDF, book: SavedBook, heroes: RasterImage[], width: number, height: number) => {
+  doc.setFillColor(238, 242, 255);
+  doc.rect(0, 0, width, height, 'F');
+
+  doc.setTextColor(...INDIGO);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.text('A CROWDQUEST ADVENTURE', width / 2, MARGIN + 10, { align: 'center' });
+
+  doc.setTextColor(...SLATE);
+  doc.setFontSize(26);
+  const titleLines: string[] = doc.splitTextToSize(book.title, width - MARGIN * 4);
+  doc.text(titleLines, width / 2, MARGIN + 26, { align: 'center' });
+
+  const titleBottom = MARGIN + 26 + titleLines.length * 10;
+  if (heroes.length > 0) {
+    // The cast sits side by side, each photo with its name underneath.
+    const gap = 6;
+    const nameHeight = heroes.length > 1 ? 8 : 0;
+    const size = Math.min(
+      (width - MARGIN * 6 - gap * (heroes.length - 1)) / heroes.length,
+      height - titleBottom - MARGIN * 4 - nameHeight
+    );
+    const rowWidth = size * heroes.length + gap * (heroes.length - 1);
+    heroes.forEach((hero, i) => {
+      const slotX = (width - rowWidth) / 2 + i * (size + gap);
+      const frame = fitImage(hero, slotX, titleBottom + 6, size, size);
+      doc.setFillColor(255, 255, 255);
+      doc.roundedRect(frame.x - 3, frame.y - 3, frame.width + 6, frame.height + 6, 3, 3, 'F');
+      doc.addImage(hero.dataUrl, 'JPEG', frame.x, frame.y, frame.width, frame.height);
+      if (nameHeight > 0) {
+        doc.setTextColor(...SLATE);
+        doc.setFontSize(10);
+        doc.text(doc.splitTextToSize(book.cast[i].name, size)[0], slotX + size / 2, frame.y + frame.height + 8, { align: 'center' });
+      }
+    });
+  }
+
+  if (book.synopsis) {
+    doc.setTextColor(...SLATE);
+    doc.setFont('helvetica', 'italic');
+    doc.setFontSize(10);
+    doc.text(doc.splitTextToSize(book.synopsis, width - MARGIN * 6)[0], width / 2, height - MARGIN - 12, { align: 'center' });
+    doc.setFont('helvetica', 'bold');
+  }
+
+  doc.setTextColor(...INDIGO);
+  doc.setFontSize(14);
+  doc.text(heroes.length > 1 ? 'Can you find us in the crowd?' : 'Can you find me in the crowd?', width / 2, height - MARGIN - 4, { align: 'center' });
+};
+
+// Quest lists and answer legends are two columns of single lines.
+const QUEST_ROW_HEIGHT = 5.5;
+const LEGEND_ROW_HEIGHT = 4.5;
+
+// Room a two-column list needs below a picture, from the picture's edge to under its last row.
+const listHeight = (firstRowOffset: number, lineCount: number, rowHeight: number) =>
+  firstRowOffset + Math.max(0, Math.ceil(lineCount / 2) - 1) * rowHeight + 2;
+
+// Cuts a line to the given width, ending it with an ellipsis so a shortened name doesn't pass for the whole one.
+const fitLine = (doc: jsPDF, text: string, maxWidth: number): string => {
+  if (doc.getTextWidth(text) <= maxWidth) return text;
+  let cut = text;
+  while (cut.length > 0 && doc.getTextWidth(`${cut.trimEnd()}...`) > maxWidth) cut = cut.slice(0, -1);
+  return `${cut.trimEnd()}...`;
+};
+
+const drawQuestList = (doc: jsPDF, items: string[], heroCount: number, x: number, y: number, width: number) => {
+  doc.setTextColor(...SLATE);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.text(heroCount > 1 ? 'FIND THE HEROES, THEN SPOT:' : 'FIND THE HERO, THEN SPOT:', x, y);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  const columnWidth = width / 2;
+  items.forEach((item, i) => {
+    const column = i % 2;
+    const row = Math.floor(i / 2);
+    const itemX = x + column * columnWidth;
+    const itemY = y + 6 + row * QUEST_ROW_HEIGHT;
+    doc.setDrawColor(...SLATE);
+    doc.setLineWidth(0.3);
+    doc.rect(itemX, itemY - 2.8, 3, 3);
+    doc.text(fitLine(doc, item, columnWidth - 8), itemX + 5, itemY);
+  });
+};
+
+// A spot-the-difference page prints both pictures side by side, with the number of changes to find.
+const drawDifferencePair = (
+  doc: jsPDF,
+  original: RasterImage,
+  altered: RasterImage,
+  changeCount: number,
+  top: number,
+  width: number,
+  maxHeight: number
+) => {
+  const gap = 6;
+  const slotWidth = (width - MARGIN * 2 - gap) / 2;
+  const left = fitImage(original, MARGIN, top, slotWidth, maxHeight - 12);
+  const right = fitImage(altered, MARGIN + slotWidth + gap, top, slotWidth, maxHeight - 12);
+  doc.addImage(original.dataUrl, 'JPEG', left.x, left.y, left.width, left.height);
+  doc.addImage(altered.dataUrl, 'JPEG', right.x, right.y, right.width, right.height);
+
+  doc.setTextColor(...SLATE);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.text(`SPOT THE ${changeCount} DIFFERENCES`, width / 2, Math.max(left.y + left.height, right.y + right.height) + 8, { align: 'center' });
+};
+
+/**
+ * Renders a book as a print-ready PDF: a cover, one page per scene with its quest list,
+ * and answer pages at the back with the hero and every located item circled.
+ */
+export const exportBookPdf = async (book: SavedBook, size: PdfPageSize): Promise<Blob> => {
+  const { width, height } = PDF_PAGE_SIZES[size];
+  const orientation = width >= height ? 'landscape' : 'portrait';
+  const doc = new jsPDF({ unit: 'mm', format: [width, height], orientation });
+
+  const heroes = await Promise.all(book.cast.map(hero => rasterize(hero.image)));
+  const pages = await Promise.all(book.pages.map(page => rasterize(page.imageUrl)));
+  const alteredPages = await Promise.all(book.pages.map(page => page.difference ? rasterize(page.difference.alteredImageUrl) : null));
+
+  drawCover(doc, book, heroes, width, height);
+
+  book.pages.forEach((page, i) => {
+    doc.addPage([width, height], orientation);
+    doc.setTextColor(...INDIGO);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(9);
+    doc.text(`PAGE ${i + 1}`, MARGIN, MARGIN);
+
+    // Story-mode captions sit between the page heading and the picture, at most two lines.
+    const caption: string[] = page.caption ? doc.splitTextToSize(page.caption, width - MARGIN * 2).slice(0, 2) : [];
+    if (caption.length > 0) {
+      doc.setTextColor(...SLATE);
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(10);
+      doc.text(caption, MARGIN, MARGIN + 5.5);
+    }
+    const top = MARGIN + 4 + caption.length * 4.5;
+    const altered = alteredPages[i];
+    if (altered) {
+      drawDifferencePair(doc, pages[i], altered, page.questItems.length, top, width, height - MARGIN - top);
+      return;
+    }
+    // Room under the scene for the heading and every row of quest items.
+    const questListHeight = listHeight(12, page.questItems.length, QUEST_ROW_HEIGHT);
+    const area = fitImage(pages[i], MARGIN, top, width - MARGIN * 2, height - MARGIN - top - questListHeight);
+    doc.addImage(pages[i].dataUrl, 'JPEG', area.x, area.y, area.width, area.height);
+    drawQuestList(doc, page.questItems, book.cast.length, area.x, area.y + area.height + 6, area.width);
+  });
+
+  book.pages.forEach((page, i) => {
+    doc.addPage([width, height], orientation);
+    doc.setTextColor(...SLATE);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.text(`Answers - Page ${i + 1}`, MARGIN, MARGIN);
+
+    const legend = [
+      ...(page.difference ? [] : book.cast).map((hero, heroIndex) =>
+        `H${heroIndex + 1}  ${hero.name}${page.answerKey?.heroes[heroIndex] ? '' : ' (not located)'}`
+      ),
+      ...page.questItems.map((item, itemIndex) =>
+        `${itemIndex + 1}  ${item}${page.answerKey?.items[itemIndex] ? '' : ' (not located)'}`
+      ),
+    ];
+
+    // Differences are circled on the edited copy, where they can actually be seen.
+    const answerImage = alteredPages[i] ?? pages[i];
+    const legendHeight = listHeight(7, legend.length, LEGEND_ROW_HEIGHT);
+    const area = fitImage(answerImage, MARGIN, MARGIN + 4, width - MARGIN * 2, height - MARGIN * 2 - 4 - legendHeight);
+    doc.addImage(answerImage.dataUrl, 'JPEG', area.x, area.y, area.width, area.height);
+
+    const legendY = area.y + area.height + 7;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    if (!page.answerKey) {
+      doc.setTextColor(...SLATE);
+      doc.text('No answer key was saved for this page.', area.x, legendY);
+      return;
+    }
+
+    page.answerKey.heroes.forEach((box, heroIndex) => {
+      if (box) circleBox(doc, box, area, `H${heroIndex + 1}`, INDIGO);
+    });
+    page.answerKey.items.forEach((box, itemIndex) => {
+      if (box) circleBox(doc, box, area, String(itemIndex + 1), EMERALD);
+    });
+
+    doc.setTextColor(...SLATE);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    const columnWidth = area.width / 2;
+    legend.forEach((line, lineIndex) => {
+      const column = lineIndex % 2;
+      const row = Math.floor(lineIndex / 2);
+      doc.text(fitLine(doc, line, columnWidth - 4), area.x + column * columnWidth, legendY + row * LEGEND_ROW_HEIGHT);
+    });
+  });
+
+  return doc.output('blob');
+};
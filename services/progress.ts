@@ -0,0 +1,47 @@
+import { PageProgress, QuestPage } from '../types.ts';
+
+// Enough of a page to score it; both full pages and the Vault's page summaries fit.
+type ScoredPage = Pick<QuestPage, 'questItems' | 'progress'> & { difference?: unknown };
+
+// Tells pages apart for async work and play time. A spot-the-difference page shares its picture with the
+// page it was made from, so it goes by its edited copy instead.
+export const pageKey = (page: QuestPage): string => page.difference?.alteredImageUrl ?? page.imageUrl;
+
+// Spot-the-difference pages have no heroes hidden in them.
+export const pageHeroCount = (page: ScoredPage, castSize: number): number => page.difference ? 0 : castSize;
+
+// A page's progress sized to the current cast and quest list; pages that were never played start empty.
+export const pageProgress = (page: ScoredPage, heroCount: number): PageProgress => {
+  const progress = page.progress;
+  return {
+    heroesFound: Array.from({ length: pageHeroCount(page, heroCount) }, (_, i) => progress?.heroesFound[i] ?? false),
+    itemsFound: page.questItems.map((_, i) => progress?.itemsFound[i] ?? false),
+    hintsUsed: progress?.hintsUsed ?? 0,
+    timeSpentMs: progress?.timeSpentMs ?? 0,
+  };
+};
+
+// Heroes and items found on a page, out of everything there is to find.
+export const pageCompletion = (page: ScoredPage, heroCount: number): { found: number; total: number } => {
+  const { heroesFound, itemsFound } = pageProgress(page, heroCount);
+  const found = [...heroesFound, ...itemsFound].filter(Boolean).length;
+  return { found, total: pageHeroCount(page, heroCount) + page.questItems.length };
+};
+
+// Share of the whole book found so far, from 0 to 1.
+export const bookCompletion = (book: { pages: ScoredPage[]; cast: unknown[] }): number => {
+  let found = 0;
+  let total = 0;
+  book.pages.forEach(page => {
+    const completion = pageCompletion(page, book.cast.length);
+    found += completion.found;
+    total += completion.total;
+  });
+  return total > 0 ? found / total : 0;
+};
+
+export const formatPlayTime = (ms: number): string => {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
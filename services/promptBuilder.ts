@@ -0,0 +1,155 @@
+import { AgeRange, ArtStyle, Difficulty, Hero, HeroOutfit, SceneSettings } from '../types.ts';
+
+export const MIN_ITEM_COUNT = 3;
+export const MAX_ITEM_COUNT = 8;
+
+export const DEFAULT_SCENE_SETTINGS: SceneSettings = {
+  difficulty: 'medium',
+  itemCount: 5,
+  artStyle: 'hand-drawn',
+  ageRange: 'kids',
+};
+
+export const DIFFICULTIES: Record<Difficulty, { label: string; crowd: string; decoys: string }> = {
+  easy: {
+    label: 'Easy',
+    crowd: 'a lively but uncluttered crowd of around fifty characters, with some open space between groups',
+    decoys: "Nobody in the crowd should wear any hero's colours, so the heroes pop out at a glance.",
+  },
+  medium: {
+    label: 'Medium',
+    crowd: 'hundreds of unique characters filling the whole image',
+    decoys: "A few crowd members may share one of a hero's colours, but never their whole outfit.",
+  },
+  hard: {
+    label: 'Hard',
+    crowd: 'a packed, edge-to-edge crowd of hundreds of overlapping characters',
+    decoys: "Dress several decoy characters in the heroes' colours, and include a few look-alikes with one detail different.",
+  },
+};
+
+// Starting looks for new heroes, so a fresh cast is already easy to tell apart.
+const OUTFIT_SUGGESTIONS: HeroOutfit[] = [
+  { colors: 'red and white', hat: 'bobble hat', pattern: 'horizontal stripes' },
+  { colors: 'royal blue and yellow', hat: 'baseball cap', pattern: 'polka dots' },
+  { colors: 'green and orange', hat: 'explorer hat', pattern: 'zigzags' },
+  { colors: 'purple and pink', hat: 'beret', pattern: 'stars' },
+  { colors: 'black and gold', hat: 'top hat', pattern: 'checks' },
+  { colors: 'teal and coral', hat: 'headband with a feather', pattern: 'diagonal stripes' },
+];
+
+export const suggestOutfit = (heroIndex: number): HeroOutfit => ({ ...OUTFIT_SUGGESTIONS[heroIndex % OUTFIT_SUGGESTIONS.length] });
+
+const describeOutfit = (outfit: HeroOutfit): string =>
+  [outfit.colors && `in ${outfit.colors}`, outfit.pattern && `with a ${outfit.pattern} pattern`, outfit.hat && `and a ${outfit.hat}`]
+    .filter(Boolean)
+    .join(' ');
+
+export const ART_STYLES: Record<ArtStyle, { label: string; description: string }> = {
+  'hand-drawn': { label: 'Hand-drawn', description: 'traditional 2D hand-drawn cartoon style with clean ink lines and vibrant flat colours' },
+  'pixel-art': { label: 'Pixel Art', description: 'detailed 16-bit pixel art with a limited, vivid palette and crisp pixel edges' },
+  'watercolor': { label: 'Watercolor', description: 'soft watercolour illustration with visible paper texture and gentle ink outlines' },
+};
+
+// `readers` finishes the sentence "The book is for ..." in prompts; `label` is for the settings menu.
+export const AGE_RANGES: Record<AgeRange, { label: string; readers: string; guidance: string }> = {
+  toddler: { label: 'Ages 3-5', readers: 'children aged 3 to 5', guidance: 'Keep everything gentle and friendly. Hidden items should be big, familiar things like animals, toys and food.' },
+  kids: { label: 'Ages 6-8', readers: 'children aged 6 to 8', guidance: 'Keep it family-friendly and silly. Hidden items can be small but should be easy to name.' },
+  tweens: { label: 'Ages 9-12', readers: 'children aged 9 to 12', guidance: 'Add visual jokes and tiny background stories. Hidden items can be small and specific.' },
+  'grown-ups': { label: 'Grown-ups', readers: 'adult readers', guidance: 'Go for witty, detailed sight gags. Hidden items can be tiny, partially covered, or easy to mistake for something else.' },
+};
+
+// Each page of a book is a different corner of the same world, so pages don't come out as near-copies.
+const SCENE_VARIATIONS = [
+  'the busiest main square, seen from above at midday',
+  'a bustling market with stalls and street performers',
+  'a grand parade or festival winding through the scene',
+  'the waterfront or harbour, with boats and a crowded pier',
+  'at night, lit by lanterns, signs and fireworks',
+  'a packed stadium, arena or show where a big event is happening',
+  'a chaotic transport hub full of travellers and luggage',
+  'a huge indoor hall such as a museum, library or palace',
+  'a park or garden on a sunny holiday afternoon',
+  'a construction site where something enormous is being built',
+];
+
+// The editable scene description for one page of a book.
+export const describePageScene = (scenery: string, pageIndex: number): string =>
+  `${scenery.trim()} - ${SCENE_VARIATIONS[pageIndex % SCENE_VARIATIONS.length]}`;
+
+/**
+ * Prompt for the one-off character sheet that fixes how a hero looks for the whole book.
+ * The sheet is drawn in the book's art style so it can be copied straight into every page.
+ */
+export const buildCharacterSheetPrompt = (hero: Hero, settings: SceneSettings, heroIndex: number): string => `
+      Design a cartoon character based on the person in the provided photo. Their name is ${hero.name}.
+      Keep their hair color, hairstyle, and facial structure (translated to the art style).
+
+      SIGNATURE OUTFIT: Dress them in a very distinct outfit ${describeOutfit(hero.outfit ?? suggestOutfit(heroIndex))}.
+      This exact outfit will be used on every page, so make it bold and easy to recognise.
+
+      LAYOUT: A character reference sheet on a plain white background showing the same character three times:
+      from the front, from the side, and in a lively action pose. No text, no other characters.
+
+      STYLE: ${ART_STYLES[settings.artStyle].description}.
+    `;
+
+/**
+ * Composes the full illustration prompt. `scene` is the page's description (see describePageScene);
+ * everything else comes from the book's settings.
+ */
+export const buildScenePrompt = (cast: Hero[], scene: string, settings: SceneSettings): string => {
+  const difficulty = DIFFICULTIES[settings.difficulty];
+  return `
+      Create a high-detail search-and-find ("Where's Wally" / "Where's Waldo" style) illustration.
+
+      THE HEROES: Each provided image shows one hero and is labelled with their name (${cast.length} in total).
+      A character sheet shows exactly how that hero must look: copy their face, hair and signature outfit precisely, only the pose changes.
+      A plain photo should be turned into a cartoon character that keeps the person's hair color, hairstyle and facial structure,
+      dressed in a bold outfit no other hero wears.
+      Draw every hero exactly once, spread out across the scene rather than standing together.
+      ${difficulty.decoys}
+
+      THE SCENE: ${scene}.
+
+      THE CROWD: Fill the image with ${difficulty.crowd}, performing various funny actions.
+      Add backgrounds, vehicles, and buildings that fit the scene.
+
+      HIDDEN THINGS: Include at least ${settings.itemCount} unique "easter egg" characters or objects specifically related to the scene.
+      ${AGE_RANGES[settings.ageRange].guidance}
+
+      STYLE: ${ART_STYLES[settings.artStyle].description}.
+
+      OUTPUT: In addition to the image, list ${settings.itemCount} specific themed items or characters you added to the scene for the user to find (not including the heroes).
+    `;
+};
+
+// Asks for the storyline behind story mode; each beat's `scene` becomes that page's scene description.
+export const buildStoryPrompt = (cast: Hero[], scenery: string, pageCount: number, settings: SceneSettings): string => `
+      Write a short adventure for a ${pageCount}-page search-and-find picture book set in: ${scenery}.
+      The heroes are ${cast.map(hero => hero.name).join(', ')}. The reader looks for them on every page.
+      The book is for ${AGE_RANGES[settings.ageRange].readers}: ${AGE_RANGES[settings.ageRange].guidance}
+
+      Give the book a catchy title and a one-sentence synopsis.
+      Then write exactly ${pageCount} story beats, one per page, that build to a satisfying ending.
+      For each beat give:
+      - scene: a vivid description of a crowded place in this world where the beat happens, for the illustrator (one or two sentences, no names needed).
+      - caption: one or two sentences for the reader, starting with what happens to the heroes by name.
+    `;
+
+const DIFFERENCE_SUBTLETY: Record<Difficulty, string> = {
+  easy: 'Every change should be easy to notice once the two pictures are compared.',
+  medium: 'Changes should be small but clear.',
+  hard: 'Changes should be subtle, the kind you only notice by comparing closely.',
+};
+
+// Asks the image model to edit a finished page into the second half of a spot-the-difference puzzle.
+export const buildDifferencePrompt = (count: number, settings: SceneSettings): string => `
+      Edit this search-and-find illustration to make a spot-the-difference puzzle.
+      Make exactly ${count} small, deliberate changes, spread out across the whole picture, for example:
+      change the colour of something, remove a small object, add a small object, or change a detail such as a sign, a pattern or an expression.
+      ${DIFFERENCE_SUBTLETY[settings.difficulty]}
+      Keep everything else exactly the same: the same framing, characters, positions and art style.
+
+      OUTPUT: In addition to the edited image, list the ${count} changes, one per line, saying what changed and where (e.g. "the balloon above the fountain is now green").
+    `;
@@ -0,0 +1,524 @@
+import type { ContentListUnion, Type as SchemaType } from "@google/genai";
+import { BoundingBox, Hero, SceneSettings } from '../../types.ts';
+import { DifferenceResult, DiscoveredItem, GenerationResult, ImageProvider, ItemLocation, RequestOptions, Storyline } from './imageProvider.ts';
+import { buildCharacterSheetPrompt, buildDifferencePrompt, buildScenePrompt, buildStoryPrompt } from '../promptBuilder.ts';
+import { GenerationError, MissingApiKeyError, NoImageError, SafetyBlockError, toGenerationError } from '../errors.ts';
+import { prepareModelImages, toDataUrl } from '../media.ts';
+import { ResultCache, resultCache } from '../resultCache.ts';
+import type { ProxyConfig, ProxyEndpoint, ProxyErrorBody, ProxyResponse } from '../../server/protocol.ts';
+
+// The SDK's schema type names, spelled out so the SDK itself stays out of the browser bundle.
+const Type = {
+  OBJECT: 'OBJECT',
+  ARRAY: 'ARRAY',
+  STRING: 'STRING',
+  INTEGER: 'INTEGER',
+  NUMBER: 'NUMBER',
+  BOOLEAN: 'BOOLEAN',
+} as Record<'OBJECT' | 'ARRAY' | 'STRING' | 'INTEGER' | 'NUMBER' | 'BOOLEAN', SchemaType>;
+
+// Finish reasons that mean the model refused to draw or describe what it was asked for.
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+interface ProxyCall {
+  endpoint: ProxyEndpoint;
+  contents: ContentListUnion;
+  config?: ProxyConfig;
+  // Part of the cache key but never sent: tells apart pages drawn from the same prompt.
+  variant?: number;
+}
+
+// An HTTP failure from the proxy, shaped like the SDK's errors so toGenerationError can read its status.
+class ProxyHttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ProxyHttpError';
+    this.status = status;
+  }
+}
+
+// A drawing call that came back without a picture is worth retrying, so it is never cached.
+const isCacheable = (endpoint: ProxyEndpoint, response: ProxyResponse): boolean =>
+  endpoint !== 'generate' || !!response.candidates?.[0]?.content?.parts?.some(part => part.inlineData);
+
+/**
+ * Talks to Gemini through the app's own server (see server/), which holds the API key and picks the
+ * model: `generate` draws, `locate` answers structured questions about pictures and text.
+ * Answers are cached by their inputs, so the same photo, prompt and settings never cost twice.
+ */
+export class GeminiProvider implements ImageProvider {
+  readonly name = 'gemini';
+  private baseUrl: string;
+  private cache: ResultCache | null;
+
+  constructor(baseUrl = '/api', cache: ResultCache | null = resultCache) {
+    this.baseUrl = baseUrl;
+    this.cache = cache;
+  }
+
+  // Every request goes through here so HTTP and network failures come out as typed GenerationErrors.
+  private async request(call: ProxyCall, options: RequestOptions): Promise<ProxyResponse> {
+    const key = this.cache ? await this.cache.keyOf(call) : null;
+    const cached = key && !options.fresh ? await this.cache?.get<ProxyResponse>(key) : undefined;
+    const response = cached ?? await this.send(call, options);
+
+    if (response.promptFeedback?.blockReason) {
+      throw new SafetyBlockError('input', response.promptFeedback);
+    }
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+      throw new SafetyBlockError('output', finishReason);
+    }
+    // Written in the background; set() never throws.
+    if (key && !cached && isCacheable(call.endpoint, response)) {
+      void this.cache?.set(key, response);
+    }
+    return response;
+  }
+
+  private async send({ endpoint, contents, config = {} }: ProxyCall, options: RequestOptions): Promise<ProxyResponse> {
+    try {
+      const res = await fetch(`${this.baseUrl}/${endpoint}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ contents, config }),
+        signal: options.signal,
+      });
+      if (!res.ok) {
+        const body: Partial<ProxyErrorBody> = await res.json().catch(() => ({}));
+        if (body.error?.code === 'missing-key') throw new MissingApiKeyError();
+        throw new ProxyHttpError(res.status, body.error?.message ?? res.statusText);
+      }
+      return await res.json();
+    } catch (error) {
+      throw toGenerationError(error);
+    }
+  }
+
+  // Inline parts for one request's images, labelled with their real MIME type and kept under the size limits.
+  private async imageParts(dataUrls: string[]) {
+    const images = await prepareModelImages(dataUrls);
+    return images.map(inlineData => ({ inlineData }));
+  }
+
+  async generateCharacterSheet(hero: Hero, heroIndex: number, settings: SceneSettings, options: RequestOptions = {}): Promise<string> {
+    const response = await this.request({
+      endpoint: 'generate',
+      contents: {
+        parts: [
+          ...await this.imageParts([hero.image]),
+          { text: buildCharacterSheetPrompt(hero, settings, heroIndex) },
+        ],
+      },
+      config: {
+        imageConfig: {
+          aspectRatio: "4:3"
+        }
+      }
+    }, options);
+
+    const image = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData)?.inlineData;
+    if (!image) {
+      throw new NoImageError(response.text);
+    }
+    return toDataUrl({ mimeType: image.mimeType || 'image/png', data: image.data ?? '' });
+  }
+
+  async generateScene(cast: Hero[], scene: string, settings: SceneSettings, options: RequestOptions = {}): Promise<GenerationResult> {
+    const prompt = buildScenePrompt(cast, scene, settings);
+
+    try {
+      const heroImages = await this.imageParts(cast.map(hero => hero.sheet ?? hero.image));
+      const response = await this.request({
+        endpoint: 'generate',
+        contents: {
+          parts: [
+            ...cast.flatMap((hero, i) => [
+              { text: `Hero ${i + 1}: ${hero.name} (${hero.sheet ? 'character sheet' : 'photo'})` },
+              heroImages[i],
+            ]),
+            {
+              text: prompt,
+            },
+          ],
+        },
+        config: {
+          imageConfig: {
+            aspectRatio: "16:9"
+          }
+        },
+        variant: options.page,
+      }, options);
+
+      let imageUrl = '';
+      let notes = '';
+
+      if (response.candidates && response.candidates[0].content.parts) {
+        for (const part of response.candidates[0].content.parts) {
+          if (part.inlineData) {
+            imageUrl = toDataUrl({ mimeType: part.inlineData.mimeType || 'image/png', data: part.inlineData.data ?? '' });
+          } else if (part.text) {
+            notes += `${part.text}\n`;
+          }
+        }
+      }
+
+      if (!imageUrl) {
+        throw new NoImageError(notes.trim() || undefined);
+      }
+
+      // No fallback items here: anything missing is filled in from the picture during verification.
+      const questItems = await this.extractList(
+        'An illustrator described the things they hid in a search-and-find picture. Extract each hidden item or character as a short description, excluding the main hero.',
+        notes,
+        options
+      );
+      return { imageUrl, questItems };
+    } catch (error) {
+      console.error("Gemini Generation Error:", error);
+      throw toGenerationError(error);
+    }
+  }
+
+  // The image model can't return structured output, so its free-text lists go through a schema-constrained call.
+  private async extractList(instruction: string, notes: string, options: RequestOptions): Promise<string[]> {
+    if (!notes.trim()) return [];
+
+    try {
+      const response = await this.request({
+        endpoint: 'locate',
+        contents: `${instruction}\n\n${notes}`,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              items: {
+                type: Type.ARRAY,
+                items: { type: Type.STRING },
+              }
+            },
+            required: ["items"]
+          }
+        }
+      }, options);
+
+      const result = JSON.parse(response.text || '{}');
+      return Array.isArray(result.items) ? result.items.filter((item: unknown) => typeof item === 'string' && item.trim()) : [];
+    } catch (error) {
+      console.error("List Extraction Error:", error);
+      return [];
+    }
+  }
+
+  async writeStory(cast: Hero[], scenery: string, pageCount: number, settings: SceneSettings, options: RequestOptions = {}): Promise<Storyline> {
+    const response = await this.request({
+      endpoint: 'locate',
+      contents: buildStoryPrompt(cast, scenery, pageCount, settings),
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING },
+            synopsis: { type: Type.STRING },
+            beats: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  scene: { type: Type.STRING },
+                  caption: { type: Type.STRING },
+                },
+                required: ["scene", "caption"]
+              }
+            }
+          },
+          required: ["title", "synopsis", "beats"]
+        }
+      }
+    }, options);
+
+    let story: Storyline;
+    try {
+      story = JSON.parse(response.text || '{}');
+    } catch (error) {
+      throw new GenerationError("The storyteller lost their place. Please try again.", 'retry', true, error);
+    }
+    if (!story.title || !Array.isArray(story.beats) || story.beats.length < pageCount) {
+      throw new GenerationError("The storyteller lost their place. Please try again.", 'retry', true, story);
+    }
+    return { ...story, beats: story.beats.slice(0, pageCount) };
+  }
+
+  async locateHeroes(cast: Hero[], generatedBase64: string, options: RequestOptions = {}): Promise<(BoundingBox | null)[]> {
+    const prompt = `The first ${cast.length} images show these people (as a photo or their cartoon character sheet), in order:
+${cast.map((hero, i) => `${i}. ${hero.name}`).join('\n')}
+The last image is a dense illustration. Find each person drawn as a cartoon in it.
+For every person return their index, whether they were found, and their bounding box [ymin, xmin, ymax, xmax] as normalized values 0-1000.`;
+
+    try {
+      const response = await this.request({
+        endpoint: 'locate',
+        contents: {
+          parts: [
+            ...await this.imageParts([...cast.map(hero => hero.sheet ?? hero.image), generatedBase64]),
+            { text: prompt }
+          ]
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                index: { type: Type.INTEGER },
+                found: { type: Type.BOOLEAN },
+                box_2d: {
+                  type: Type.ARRAY,
+                  items: { type: Type.NUMBER },
+                }
+              },
+              required: ["index", "found"]
+            }
+          }
+        }
+      }, options);
+
+      const boxes: (BoundingBox | null)[] = cast.map(() => null);
+      const results: { index: number; found: boolean; box_2d?: number[] }[] = JSON.parse(response.text || '[]');
+      for (const result of results) {
+        if (result.index in boxes && result.found && result.box_2d?.length === 4 && boxes[result.index] === null) {
+          boxes[result.index] = result.box_2d as BoundingBox;
+        }
+      }
+      return boxes;
+    } catch (error) {
+      // A garbled answer just means "not found"; real failures (bad key, rate limit...) must reach the UI.
+      if (error instanceof SyntaxError) return cast.map(() => null);
+      console.error("Locate Heroes Error:", error);
+      throw toGenerationError(error);
+    }
+  }
+
+  async locateItems(generatedBase64: string, items: string[], options: RequestOptions = {}): Promise<ItemLocation[]> {
+    const prompt = `This is a dense search-and-find illustration. Check whether each of the following numbered items is really drawn in it:
+${items.map((item, i) => `${i}. ${item}`).join('\n')}
+For every item return its index, whether it is visible, your confidence from 0 to 1, and its bounding box [ymin, xmin, ymax, xmax] as normalized values 0-1000.`;
+
+    try {
+      const response = await this.request({
+        endpoint: 'locate',
+        contents: {
+          parts: [
+            ...await this.imageParts([generatedBase64]),
+            { text: prompt }
+          ]
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                index: { type: Type.INTEGER },
+                found: { type: Type.BOOLEAN },
+                confidence: { type: Type.NUMBER },
+                box_2d: {
+                  type: Type.ARRAY,
+                  items: { type: Type.NUMBER },
+                }
+              },
+              required: ["index", "found", "confidence"]
+            }
+          }
+        }
+      }, options);
+
+      const locations: ItemLocation[] = items.map(() => ({ box: null, confidence: 0 }));
+      const results: { index: number; found: boolean; confidence: number; box_2d?: number[] }[] = JSON.parse(response.text || '[]');
+      for (const result of results) {
+        const location = locations[result.index];
+        if (location && result.found && result.box_2d?.length === 4 && location.box === null) {
+          location.box = result.box_2d as BoundingBox;
+          location.confidence = Math.min(1, Math.max(0, result.confidence));
+        }
+      }
+      return locations;
+    } catch (error) {
+      if (error instanceof SyntaxError) return items.map(() => ({ box: null, confidence: 0 }));
+      console.error("Locate Items Error:", error);
+      throw toGenerationError(error);
+    }
+  }
+
+  async discoverItems(generatedBase64: string, count: number, exclude: string[], options: RequestOptions = {}): Promise<DiscoveredItem[]> {
+    const prompt = `This is a dense search-and-find illustration. Pick ${count} small but distinctive things a child could search for that are clearly drawn in it.
+${exclude.length > 0 ? `Do not pick any of these: ${exclude.join('; ')}.` : ''}
+For each return a short description (e.g. "a dog wearing sunglasses"), your confidence from 0 to 1, and its bounding box [ymin, xmin, ymax, xmax] as normalized values 0-1000.`;
+
+    const response = await this.request({
+      endpoint: 'locate',
+      contents: {
+        parts: [
+          ...await this.imageParts([generatedBase64]),
+          { text: prompt }
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              label: { type: Type.STRING },
+              confidence: { type: Type.NUMBER },
+              box_2d: {
+                type: Type.ARRAY,
+                items: { type: Type.NUMBER },
+              }
+            },
+            required: ["label", "confidence", "box_2d"]
+          }
+        }
+      }
+    }, options);
+
+    const results: { label: string; confidence: number; box_2d: number[] }[] = JSON.parse(response.text || '[]');
+    return results
+      .filter(result => result.label && result.box_2d?.length === 4)
+      .map(result => ({
+        label: result.label,
+        box: result.box_2d as BoundingBox,
+        confidence: Math.min(1, Math.max(0, result.confidence)),
+      }));
+  }
+
+  async createDifferences(pageImage: string, count: number, settings: SceneSettings, options: RequestOptions = {}): Promise<DifferenceResult> {
+    const response = await this.request({
+      endpoint: 'generate',
+      contents: {
+        parts: [
+          ...await this.imageParts([pageImage]),
+          { text: buildDifferencePrompt(count, settings) },
+        ],
+      },
+      config: {
+        imageConfig: {
+          aspectRatio: "16:9"
+        }
+      }
+    }, options);
+
+    let imageUrl = '';
+    let notes = '';
+    for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+      if (part.inlineData) {
+        imageUrl = toDataUrl({ mimeType: part.inlineData.mimeType || 'image/png', data: part.inlineData.data ?? '' });
+      } else if (part.text) {
+        notes += `${part.text}\n`;
+      }
+    }
+    if (!imageUrl) {
+      throw new NoImageError(notes.trim() || undefined);
+    }
+
+    const changes = await this.extractList(
+      'An illustrator described the changes they made to a picture for a spot-the-difference puzzle. Extract each change as a short description of what changed and where.',
+      notes,
+      options
+    );
+    return { imageUrl, changes };
+  }
+
+  async locateDifferences(originalImage: string, alteredImage: string, changes: string[], options: RequestOptions = {}): Promise<ItemLocation[]> {
+    const prompt = `The first image is an illustration and the second is an edited copy of it. These numbered changes were supposedly made:
+${changes.map((change, i) => `${i}. ${change}`).join('\n')}
+Compare the two images. For every change return its index, whether it can really be seen, your confidence from 0 to 1, and its bounding box [ymin, xmin, ymax, xmax] as normalized values 0-1000.`;
+
+    try {
+      const response = await this.request({
+        endpoint: 'locate',
+        contents: {
+          parts: [
+            ...await this.imageParts([originalImage, alteredImage]),
+            { text: prompt }
+          ]
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                index: { type: Type.INTEGER },
+                found: { type: Type.BOOLEAN },
+                confidence: { type: Type.NUMBER },
+                box_2d: {
+                  type: Type.ARRAY,
+                  items: { type: Type.NUMBER },
+                }
+              },
+              required: ["index", "found", "confidence"]
+            }
+          }
+        }
+      }, options);
+
+      const locations: ItemLocation[] = changes.map(() => ({ box: null, confidence: 0 }));
+      const results: { index: number; found: boolean; confidence: number; box_2d?: number[] }[] = JSON.parse(response.text || '[]');
+      for (const result of results) {
+        const location = locations[result.index];
+        if (location && result.found && result.box_2d?.length === 4 && location.box === null) {
+          location.box = result.box_2d as BoundingBox;
+          location.confidence = Math.min(1, Math.max(0, result.confidence));
+        }
+      }
+      return locations;
+    } catch (error) {
+      if (error instanceof SyntaxError) return changes.map(() => ({ box: null, confidence: 0 }));
+      console.error("Locate Differences Error:", error);
+      throw toGenerationError(error);
+    }
+  }
+
+  async locateFace(photo: string, options: RequestOptions = {}): Promise<BoundingBox | null> {
+    const response = await this.request({
+      endpoint: 'locate',
+      contents: {
+        parts: [
+          ...await this.imageParts([photo]),
+          { text: 'Find the most prominent human face in this photo. Return whether there is one and its bounding box [ymin, xmin, ymax, xmax] as normalized values 0-1000.' }
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            found: { type: Type.BOOLEAN },
+            box_2d: {
+              type: Type.ARRAY,
+              items: { type: Type.NUMBER },
+            }
+          },
+          required: ["found"]
+        }
+      }
+    }, options);
+
+    try {
+      const result: { found: boolean; box_2d?: number[] } = JSON.parse(response.text || '{}');
+      return result.found && result.box_2d?.length === 4 ? result.box_2d as BoundingBox : null;
+    } catch (error) {
+      if (error instanceof SyntaxError) return null;
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { BoundingBox, Hero, SceneSettings } from '../../types.ts';
+
+export interface GenerationResult {
+  imageUrl: string;
+  // What the model claims it hid; unverified until checked with locateItems.
+  questItems: string[];
+}
+
+// The plot behind a story-mode book, with one beat per page.
+export interface Storyline {
+  title: string;
+  synopsis: string;
+  beats: { scene: string; caption: string }[];
+}
+
+// An edited copy of a page for spot-the-difference, with the changes the model says it made.
+export interface DifferenceResult {
+  imageUrl: string;
+  // Unverified until checked with locateDifferences.
+  changes: string[];
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // Skips cached results, for when the player wants a new variation of something already made.
+  fresh?: boolean;
+  // Which page of a book is being drawn, so a scene that comes round again still gets its own picture.
+  page?: number;
+}
+
+export interface ItemLocation {
+  box: BoundingBox | null;
+  // 0-1, how sure the provider is that the item is really drawn where `box` says.
+  confidence: number;
+}
+
+export interface DiscoveredItem {
+  label: string;
+  box: BoundingBox;
+  confidence: number;
+}
+
+/**
+ * A backend capable of drawing quest pages and finding things in them.
+ * All images are passed around as data URLs; boxes are [ymin, xmin, ymax, xmax] normalized to 0-1000.
+ */
+export interface ImageProvider {
+  readonly name: string;
+  // Draws the reference design for one hero (by index into the cast) and returns it as a data URL.
+  generateCharacterSheet(hero: Hero, heroIndex: number, settings: SceneSettings, options?: RequestOptions): Promise<string>;
+  // Every hero in the cast is drawn into the scene (from their character sheet where they have one);
+  // `scene` is the page's own description.
+  generateScene(cast: Hero[], scene: string, settings: SceneSettings, options?: RequestOptions): Promise<GenerationResult>;
+  // Writes a storyline with exactly `pageCount` beats.
+  writeStory(cast: Hero[], scenery: string, pageCount: number, settings: SceneSettings, options?: RequestOptions): Promise<Storyline>;
+  // One entry per hero, in cast order; null for anyone who can't be found.
+  locateHeroes(cast: Hero[], pageImage: string, options?: RequestOptions): Promise<(BoundingBox | null)[]>;
+  // One entry per description, in the same order.
+  locateItems(pageImage: string, items: string[], options?: RequestOptions): Promise<ItemLocation[]>;
+  // Finds up to `count` other findable things actually drawn on the page, skipping anything in `exclude`.
+  discoverItems(pageImage: string, count: number, exclude: string[], options?: RequestOptions): Promise<DiscoveredItem[]>;
+  // Edits a page into a copy with `count` small deliberate changes.
+  createDifferences(pageImage: string, count: number, settings: SceneSettings, options?: RequestOptions): Promise<DifferenceResult>;
+  // One entry per change, in the same order, with its box in the edited image.
+  locateDifferences(originalImage: string, alteredImage: string, changes: string[], options?: RequestOptions): Promise<ItemLocation[]>;
+  // The most prominent face in a hero photo, or null if there isn't one.
+  locateFace(photo: string, options?: RequestOptions): Promise<BoundingBox | null>;
+}
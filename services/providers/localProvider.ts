@@ -0,0 +1,322 @@
+import { BoundingBox, Difficulty, Hero, SceneSettings } from '../../types.ts';
+import { DifferenceResult, DiscoveredItem, GenerationResult, ImageProvider, ItemLocation, RequestOptions, Storyline } from './imageProvider.ts';
+
+const WIDTH = 1600;
+const HEIGHT = 900;
+const CROWD_SIZES: Record<Difficulty, number> = { easy: 50, medium: 140, hard: 260 };
+// Extra things drawn but not claimed, so verification has something to swap in.
+const SPARE_ITEMS = 2;
+
+// Where everything was drawn is embedded in the SVG, so the locate calls can read it back without any shared state.
+const ANSWER_KEY_PATTERN = /<metadata id="answer-key">(.*?)<\/metadata>/s;
+// Same idea for spot-the-difference copies: one box per change, in order.
+const DIFFERENCES_PATTERN = /<metadata id="differences">(.*?)<\/metadata>/s;
+
+interface EmbeddedAnswerKey {
+  // One per cast member, in cast order. Pages drawn before casts existed have a single `hero` instead.
+  heroes?: BoundingBox[];
+  hero?: BoundingBox;
+  items: Record<string, BoundingBox>;
+}
+
+const CANNED_ITEMS = [
+  { label: "a runaway red balloon", glyph: "🎈" },
+  { label: "a sleepy orange cat", glyph: "🐈" },
+  { label: "a slice of pizza", glyph: "🍕" },
+  { label: "a tiny rocket ship", glyph: "🚀" },
+  { label: "a lost umbrella", glyph: "☂️" },
+  { label: "a golden trophy", glyph: "🏆" },
+  { label: "a dancing robot", glyph: "🤖" },
+  { label: "a friendly ghost", glyph: "👻" },
+  { label: "a treasure key", glyph: "🗝️" },
+  { label: "a melting ice cream cone", glyph: "🍦" },
+  { label: "a sneaky crocodile", glyph: "🐊" },
+  { label: "a bunch of bananas", glyph: "🍌" },
+  { label: "a spinning top hat", glyph: "🎩" },
+  { label: "a bright yellow duck", glyph: "🦆" },
+];
+
+// Small things stuck onto a copied page to make the differences.
+const DIFFERENCE_GLYPHS = [
+  { label: "a yellow star", glyph: "⭐" },
+  { label: "a pink flower", glyph: "🌸" },
+  { label: "a red apple", glyph: "🍎" },
+  { label: "a football", glyph: "⚽" },
+  { label: "a little bird", glyph: "🐦" },
+  { label: "a wrapped present", glyph: "🎁" },
+  { label: "a golden bell", glyph: "🔔" },
+  { label: "a spotty mushroom", glyph: "🍄" },
+];
+
+// Each hero gets their own striped outfit so several can be told apart.
+const HERO_COLORS = ['#dc2626', '#2563eb', '#16a34a', '#9333ea', '#ea580c', '#0891b2'];
+
+// Story beats cycled through by writeStory; `{heroes}` is replaced with the cast's names.
+const CANNED_BEATS = [
+  { place: 'the crowded town square', caption: '{heroes} arrive and discover that the treasure map has been torn into pieces!' },
+  { place: 'a noisy market full of stalls', caption: '{heroes} search the market for the first piece of the map.' },
+  { place: 'a packed harbour with boats everywhere', caption: 'A clue points {heroes} towards the harbour, where a ship is about to leave.' },
+  { place: 'a busy festival with music and dancing', caption: '{heroes} follow the sound of drums to the festival, hot on the trail.' },
+  { place: 'a grand hall lit by lanterns', caption: '{heroes} piece the map together at last and celebrate with everyone!' },
+];
+
+const PALETTE = ['#f87171', '#fb923c', '#facc15', '#4ade80', '#38bdf8', '#818cf8', '#c084fc', '#f472b6', '#94a3b8'];
+
+// FNV-1a, good enough to turn a prompt into a stable seed.
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Everything that shapes a picture goes into its seed; `fresh` adds a nonce so a redraw comes out different.
+const seedOf = (options: RequestOptions, ...inputs: unknown[]): number =>
+  hashString(JSON.stringify([...inputs, options.page ?? null, options.fresh ? Math.random() : null]));
+
+// Mulberry32 PRNG so the same seed always yields the same page.
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+const unescapeXml = (value: string) =>
+  value.replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)));
+
+const toBase64 = (value: string): string => {
+  const bytes = new TextEncoder().encode(value);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): string => {
+  const binary = atob(value);
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+const toBox = (x: number, y: number, w: number, h: number): BoundingBox => [
+  Math.round((y / HEIGHT) * 1000),
+  Math.round((x / WIDTH) * 1000),
+  Math.round(((y + h) / HEIGHT) * 1000),
+  Math.round(((x + w) / WIDTH) * 1000),
+];
+
+const describeArea = (x: number, y: number): string =>
+  `${y < HEIGHT / 3 ? 'top' : y < (HEIGHT * 2) / 3 ? 'middle' : 'bottom'} ${x < WIDTH / 3 ? 'left' : x < (WIDTH * 2) / 3 ? 'centre' : 'right'}`;
+
+const drawPerson = (x: number, y: number, color: string, skin: string) => `
+  <g transform="translate(${x.toFixed(1)} ${y.toFixed(1)})">
+    <rect x="-9" y="10" width="18" height="26" rx="6" fill="${color}" stroke="#1e293b" stroke-width="1.5"/>
+    <circle cx="0" cy="2" r="9" fill="${skin}" stroke="#1e293b" stroke-width="1.5"/>
+  </g>`;
+
+const drawHero = (x: number, y: number, color: string) => `
+  <g transform="translate(${x.toFixed(1)} ${y.toFixed(1)})">
+    <rect x="-9" y="10" width="18" height="26" rx="6" fill="#fff" stroke="#1e293b" stroke-width="1.5"/>
+    <rect x="-9" y="16" width="18" height="4" fill="${color}"/>
+    <rect x="-9" y="26" width="18" height="4" fill="${color}"/>
+    <circle cx="0" cy="2" r="9" fill="#fcd34d" stroke="#1e293b" stroke-width="1.5"/>
+    <path d="M-10 -4 L0 -16 L10 -4 Z" fill="${color}" stroke="#1e293b" stroke-width="1.5"/>
+  </g>`;
+
+interface LocalProviderOptions {
+  // Artificial latency so loading states can be exercised offline.
+  delayMs?: number;
+}
+
+/**
+ * Offline provider that draws deterministic SVG crowds. The same scene, page, cast and settings always
+ * produce the same picture, hero positions and quest items (unless `fresh` asks for a new one),
+ * which makes the full flow testable without a key.
+ */
+export class LocalProvider implements ImageProvider {
+  readonly name = 'local';
+  private delayMs: number;
+
+  constructor({ delayMs = 600 }: LocalProviderOptions = {}) {
+    this.delayMs = delayMs;
+  }
+
+  async generateCharacterSheet(hero: Hero, heroIndex: number, _settings: SceneSettings, options: RequestOptions = {}): Promise<string> {
+    await this.wait(options.signal);
+    const color = HERO_COLORS[heroIndex % HERO_COLORS.length];
+    // Front, side and action pose, scaled up from the same figure used on the pages.
+    const poses = [200, 400, 600].map((x, i) =>
+      `<g transform="translate(${x} 250) scale(5) rotate(${[0, 0, -15][i]})">${drawHero(0, 0, color)}</g>`
+    ).join('');
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="600" viewBox="0 0 800 600">
+      <rect width="800" height="600" fill="#ffffff"/>
+      ${poses}
+      <text x="400" y="560" font-family="sans-serif" font-size="28" text-anchor="middle" fill="#475569">${escapeXml(hero.name)}</text>
+    </svg>`;
+    return `data:image/svg+xml;base64,${toBase64(svg)}`;
+  }
+
+  async generateScene(cast: Hero[], scene: string, settings: SceneSettings, options: RequestOptions = {}): Promise<GenerationResult> {
+    await this.wait(options.signal);
+    const random = createRandom(seedOf(options, scene, cast.map(hero => [hero.name, hero.outfit]), settings));
+    const pick = <T,>(list: T[]) => list[Math.floor(random() * list.length)];
+    const skins = ['#fde68a', '#f5d0a9', '#d6a77a', '#a16207', '#7c4a1e'];
+
+    let crowd = '';
+    for (let i = 0; i < CROWD_SIZES[settings.difficulty]; i++) {
+      crowd += drawPerson(20 + random() * (WIDTH - 40), 60 + random() * (HEIGHT - 110), pick(PALETTE), pick(skins));
+    }
+
+    const heroBoxes: BoundingBox[] = [];
+    const heroFigures = cast.map((_, i) => {
+      const x = 60 + random() * (WIDTH - 120);
+      const y = 80 + random() * (HEIGHT - 160);
+      heroBoxes.push(toBox(x - 12, y - 18, 24, 56));
+      return drawHero(x, y, HERO_COLORS[i % HERO_COLORS.length]);
+    }).join('');
+
+    const pool = [...CANNED_ITEMS];
+    // Always leave at least one canned item undrawn so a false claim can be made below.
+    const itemCount = Math.min(settings.itemCount, CANNED_ITEMS.length - SPARE_ITEMS - 1);
+    const items = Array.from({ length: itemCount + SPARE_ITEMS }, () => pool.splice(Math.floor(random() * pool.length), 1)[0]);
+    const itemBoxes: Record<string, BoundingBox> = {};
+    const itemGlyphs = items.map(item => {
+      const x = 40 + random() * (WIDTH - 80);
+      const y = 90 + random() * (HEIGHT - 130);
+      itemBoxes[item.label] = toBox(x - 2, y - 28, 34, 34);
+      return `<text x="${x.toFixed(1)}" y="${y.toFixed(1)}" font-size="26">${item.glyph}</text>`;
+    }).join('');
+
+    const answerKey: EmbeddedAnswerKey = { heroes: heroBoxes, items: itemBoxes };
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}">
+      <metadata id="answer-key">${escapeXml(JSON.stringify(answerKey))}</metadata>
+      <rect width="${WIDTH}" height="${HEIGHT}" fill="#ecfccb"/>
+      <text x="24" y="40" font-family="sans-serif" font-size="24" fill="#475569">${escapeXml(scene)}</text>
+      ${crowd}
+      ${heroFigures}
+      ${itemGlyphs}
+    </svg>`;
+
+    // Like a real model, sometimes claim something that was never drawn.
+    const claimed = items.slice(0, itemCount).map(item => item.label);
+    if (random() < 0.3) {
+      claimed[claimed.length - 1] = pool[Math.floor(random() * pool.length)].label;
+    }
+
+    return {
+      imageUrl: `data:image/svg+xml;base64,${toBase64(svg)}`,
+      questItems: claimed,
+    };
+  }
+
+  async writeStory(cast: Hero[], scenery: string, pageCount: number, _settings: SceneSettings, options: RequestOptions = {}): Promise<Storyline> {
+    await this.wait(options.signal);
+    const heroes = cast.map(hero => hero.name).join(' and ') || 'Our hero';
+    return {
+      title: `The Great ${scenery.trim()} Map Hunt`,
+      synopsis: `${heroes} race across ${scenery.trim()} to rebuild a lost treasure map.`,
+      beats: Array.from({ length: pageCount }, (_, i) => {
+        // Always end on the final beat so the story still wraps up in short books.
+        const beat = i === pageCount - 1 ? CANNED_BEATS[CANNED_BEATS.length - 1] : CANNED_BEATS[i % (CANNED_BEATS.length - 1)];
+        return { scene: `${scenery.trim()} - ${beat.place}`, caption: beat.caption.replace('{heroes}', heroes) };
+      }),
+    };
+  }
+
+  async locateHeroes(cast: Hero[], pageImage: string, options: RequestOptions = {}): Promise<(BoundingBox | null)[]> {
+    await this.wait(options.signal);
+    const answerKey = this.readAnswerKey(pageImage);
+    const heroes = answerKey?.heroes ?? (answerKey?.hero ? [answerKey.hero] : []);
+    return cast.map((_, i) => heroes[i] ?? null);
+  }
+
+  async locateItems(pageImage: string, items: string[], options: RequestOptions = {}): Promise<ItemLocation[]> {
+    await this.wait(options.signal);
+    const answerKey = this.readAnswerKey(pageImage);
+    return items.map(item => {
+      const box = answerKey?.items[item] ?? null;
+      return { box, confidence: box ? 1 : 0 };
+    });
+  }
+
+  async discoverItems(pageImage: string, count: number, exclude: string[], options: RequestOptions = {}): Promise<DiscoveredItem[]> {
+    await this.wait(options.signal);
+    const answerKey = this.readAnswerKey(pageImage);
+    if (!answerKey) return [];
+    return Object.entries(answerKey.items)
+      .filter(([label]) => !exclude.includes(label))
+      .slice(0, count)
+      .map(([label, box]) => ({ label, box, confidence: 1 }));
+  }
+
+  // The copy is the original page with a few glyphs added on top, so every change is exactly where it says.
+  async createDifferences(pageImage: string, count: number, _settings: SceneSettings, options: RequestOptions = {}): Promise<DifferenceResult> {
+    await this.wait(options.signal);
+    const random = createRandom(seedOf(options, pageImage));
+    const pool = [...DIFFERENCE_GLYPHS];
+    const changes: string[] = [];
+    const boxes: BoundingBox[] = [];
+    const glyphs = Array.from({ length: Math.min(count, DIFFERENCE_GLYPHS.length) }, () => {
+      const item = pool.splice(Math.floor(random() * pool.length), 1)[0];
+      const x = 40 + random() * (WIDTH - 80);
+      const y = 90 + random() * (HEIGHT - 130);
+      changes.push(`${item.label} appeared in the ${describeArea(x, y)}`);
+      boxes.push(toBox(x - 2, y - 28, 34, 34));
+      return `<text x="${x.toFixed(1)}" y="${y.toFixed(1)}" font-size="26">${item.glyph}</text>`;
+    }).join('');
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}">
+      <metadata id="differences">${escapeXml(JSON.stringify(boxes))}</metadata>
+      <image href="${escapeXml(pageImage)}" width="${WIDTH}" height="${HEIGHT}" preserveAspectRatio="none"/>
+      ${glyphs}
+    </svg>`;
+    return { imageUrl: `data:image/svg+xml;base64,${toBase64(svg)}`, changes };
+  }
+
+  async locateDifferences(_originalImage: string, alteredImage: string, changes: string[], options: RequestOptions = {}): Promise<ItemLocation[]> {
+    await this.wait(options.signal);
+    const boxes = this.readMetadata<BoundingBox[]>(alteredImage, DIFFERENCES_PATTERN) ?? [];
+    return changes.map((_, i) => ({ box: boxes[i] ?? null, confidence: boxes[i] ? 1 : 0 }));
+  }
+
+  private readAnswerKey(pageImage: string): EmbeddedAnswerKey | null {
+    return this.readMetadata<EmbeddedAnswerKey>(pageImage, ANSWER_KEY_PATTERN);
+  }
+
+  private readMetadata<T>(pageImage: string, pattern: RegExp): T | null {
+    const [header, data] = pageImage.split(',');
+    if (!header?.startsWith('data:image/svg+xml') || !data) return null;
+
+    const match = fromBase64(data).match(pattern);
+    if (!match) return null;
+    try {
+      return JSON.parse(unescapeXml(match[1]));
+    } catch (e) {
+      console.error("Failed to read local answer key", e);
+      return null;
+    }
+  }
+
+  private wait(signal?: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+      signal?.throwIfAborted();
+      const timeout = setTimeout(resolve, this.delayMs);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timeout);
+        reject(signal.reason);
+      }, { once: true });
+    });
+  }
+
+  // There is no face detector offline; the crop step just starts from a centred frame.
+  async locateFace(_photo: string, options: RequestOptions = {}): Promise<BoundingBox | null> {
+    await this.wait(options.signal);
+    return null;
+  }
+}
@@ -0,0 +1,116 @@
+import { openDatabase, requestToPromise, transactionDone } from './idb.ts';
+
+const DB_NAME = 'crowd_quest_cache';
+const DB_VERSION = 1;
+// Entries hold the bookkeeping, values the (possibly large) results, so eviction never loads a picture.
+const ENTRIES_STORE = 'entries';
+const VALUES_STORE = 'values';
+
+// Generated pages are a few MB each, so this keeps the last few books' worth of work.
+const DEFAULT_MAX_BYTES = 150 * 1024 * 1024;
+
+interface CacheEntry {
+  key: string;
+  size: number;
+  usedAt: number;
+}
+
+/**
+ * Content-addressed store for model results, keyed by a hash of everything that went into the
+ * request. Least recently used results are evicted once the total size passes `maxBytes`.
+ * Every failure is swallowed: a cache that can't be read just means asking the model again.
+ */
+export class ResultCache {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private maxBytes: number;
+
+  constructor(maxBytes = DEFAULT_MAX_BYTES) {
+    this.maxBytes = maxBytes;
+  }
+
+  private db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+          db.createObjectStore(ENTRIES_STORE, { keyPath: 'key' }).createIndex('usedAt', 'usedAt');
+        }
+        if (!db.objectStoreNames.contains(VALUES_STORE)) {
+          db.createObjectStore(VALUES_STORE);
+        }
+      }).catch((error) => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  // SHA-256 of the inputs as JSON; null where Web Crypto is unavailable (e.g. the dev server over plain http on a LAN address).
+  async keyOf(input: unknown): Promise<string | null> {
+    if (!globalThis.crypto?.subtle) return null;
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(input)));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    try {
+      const db = await this.db();
+      const tx = db.transaction([ENTRIES_STORE, VALUES_STORE], 'readonly');
+      const [entry, value] = await Promise.all([
+        requestToPromise(tx.objectStore(ENTRIES_STORE).get(key) as IDBRequest<CacheEntry | undefined>),
+        requestToPromise(tx.objectStore(VALUES_STORE).get(key) as IDBRequest<T | undefined>),
+      ]);
+      if (!entry || value === undefined) return undefined;
+      void this.touch(entry);
+      return value;
+    } catch (error) {
+      console.error("Result cache read failed", error);
+      return undefined;
+    }
+  }
+
+  // Marks a hit as recently used, in its own transaction so lookups never wait on a write.
+  private async touch(entry: CacheEntry): Promise<void> {
+    try {
+      const db = await this.db();
+      const tx = db.transaction(ENTRIES_STORE, 'readwrite');
+      const entries = tx.objectStore(ENTRIES_STORE);
+      // The entry may have been evicted since it was read; don't bring back bookkeeping without a value.
+      const current = await requestToPromise(entries.get(entry.key) as IDBRequest<CacheEntry | undefined>);
+      if (current) entries.put({ ...current, usedAt: Date.now() });
+      await transactionDone(tx);
+    } catch (error) {
+      console.error("Result cache update failed", error);
+    }
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    try {
+      const size = JSON.stringify(value).length;
+      if (size > this.maxBytes) return;
+      const db = await this.db();
+      const tx = db.transaction([ENTRIES_STORE, VALUES_STORE], 'readwrite');
+      const entries = tx.objectStore(ENTRIES_STORE);
+      const values = tx.objectStore(VALUES_STORE);
+      const entry: CacheEntry = { key, size, usedAt: Date.now() };
+      entries.put(entry);
+      values.put(value, key);
+
+      // Oldest first, dropping until everything (including the new result) fits.
+      const all = await requestToPromise(entries.index('usedAt').getAll() as IDBRequest<CacheEntry[]>);
+      let total = all.reduce((sum, e) => sum + e.size, 0);
+      for (const old of all) {
+        if (total <= this.maxBytes) break;
+        if (old.key === key) continue;
+        entries.delete(old.key);
+        values.delete(old.key);
+        total -= old.size;
+      }
+      await transactionDone(tx);
+    } catch (error) {
+      console.error("Result cache write failed", error);
+    }
+  }
+}
+
+export const resultCache = new ResultCache();
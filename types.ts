@@ -6,10 +6,28 @@ export interface GenerationState {
   statusMessage: string;
 }
 
+// The signature look a hero keeps on every page, described in the player's own words.
+export interface HeroOutfit {
+  colors: string;
+  hat: string;
+  pattern: string;
+}
+
+// One person from the uploaded cast; every hero is hidden in every page of the book.
+export interface Hero {
+  name: string;
+  image: string; // base64
+  // Missing on heroes added before outfits could be customised.
+  outfit?: HeroOutfit;
+  // Canonical cartoon design (base64) every page is drawn from; missing until it has been designed.
+  sheet?: string;
+}
+
 export interface UserInput {
-  image: string | null; // base64
+  cast: Hero[];
   scenery: string;
   pageCount: number;
+  settings: SceneSettings;
 }
 
 export enum AppStatus {
@@ -19,15 +37,111 @@ export enum AppStatus {
   ERROR = 'ERROR'
 }
 
+// [ymin, xmin, ymax, xmax] normalized to 0-1000
+export type BoundingBox = [number, number, number, number];
+
+// Where each hero (by index into the book's cast) and each quest item (by index into questItems) were drawn;
+// null when they couldn't be located.
+export interface AnswerKey {
+  heroes: (BoundingBox | null)[];
+  items: (BoundingBox | null)[];
+  // 0-1 per quest item from the verification pass; missing on keys built before verification existed.
+  itemConfidence?: number[];
+}
+
 export interface QuestPage {
   imageUrl: string;
   questItems: string[];
+  // The scene description the page was drawn from, so it can be redrawn later; missing on older books.
+  prompt?: string;
+  // Story mode narration for this page.
+  caption?: string;
+  // Built at generation time; books saved before answer keys existed get one the first time they're played.
+  answerKey?: AnswerKey;
+  // How far the player got on this page; missing until it has been played.
+  progress?: PageProgress;
+  // Set on spot-the-difference pages (see DifferencePuzzle); classic search-and-find pages don't have it.
+  difference?: DifferencePuzzle;
+}
+
+/**
+ * A spot-the-difference page pairs its picture (`imageUrl`, copied from a classic page) with an edited copy.
+ * The changes take the place of quest items: `questItems` describes them and the answer key's `items`
+ * says where they are. There are no heroes to find, so the answer key's `heroes` is empty.
+ */
+export interface DifferencePuzzle {
+  alteredImageUrl: string;
+}
+
+// Play state of one page, kept with the page so it follows it when pages are reordered.
+export interface PageProgress {
+  // By index into the book's cast.
+  heroesFound: boolean[];
+  // By index into the page's questItems.
+  itemsFound: boolean[];
+  hintsUsed: number;
+  timeSpentMs: number;
+}
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+export type ArtStyle = 'hand-drawn' | 'pixel-art' | 'watercolor';
+export type AgeRange = 'toddler' | 'kids' | 'tweens' | 'grown-ups';
+
+// Everything the player can tune about how a book is drawn; stored with the book so new pages match.
+export interface SceneSettings {
+  difficulty: Difficulty;
+  itemCount: number;
+  artStyle: ArtStyle;
+  ageRange: AgeRange;
+}
+
+export type ChallengeScope = 'page' | 'book';
+
+// One finished challenge turn on a book's local leaderboard.
+export interface LeaderboardEntry {
+  player: string;
+  scope: ChallengeScope;
+  // 1-based page a single-page challenge was played on.
+  pageNumber?: number;
+  timeMs: number;
+  hintsUsed: number;
+  // Time plus hint penalties; lower is better.
+  scoreMs: number;
+  playedAt: number;
 }
 
 export interface SavedBook {
   id: string;
   title: string;
   pages: QuestPage[];
-  targetImage: string | null;
+  cast: Hero[];
+  // The theme the player typed; `title` may be a generated story title instead. Missing on older books.
+  scenery?: string;
+  // One-line summary of the storyline, for books made in story mode.
+  synopsis?: string;
+  // Missing on books made before scene settings existed.
+  settings?: SceneSettings;
+  // The page the player was on when they last put the book down.
+  lastPage?: number;
+  // Best challenge times on this device.
+  leaderboard?: LeaderboardEntry[];
+  // Lowercase labels for sorting the Vault.
+  tags?: string[];
+  // Small copy of the first page for the Vault list, made whenever the book is saved.
+  thumbnail?: string;
   createdAt: number;
 }
+
+// A page as the Vault lists it: no pictures, and `difference` only says it is a spot-the-difference page.
+export type PageSummary = Omit<QuestPage, 'imageUrl' | 'answerKey' | 'difference'> & { difference?: true };
+
+/**
+ * A book as the Vault lists it. Only the thumbnail is read for the list; the pages, photos and
+ * character sheets stay in storage until the book is opened.
+ */
+export interface BookSummary extends Omit<SavedBook, 'pages' | 'cast'> {
+  pages: PageSummary[];
+  cast: Omit<Hero, 'image' | 'sheet'>[];
+  // Bytes the book's images take up in storage.
+  size: number;
+}
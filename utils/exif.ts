@@ -0,0 +1,61 @@
+// EXIF orientation values 1-8: 1 is upright, 2-4 are flips/180° turns, 5-8 are rotated sideways.
+export type ExifOrientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+const ORIENTATION_TAG = 0x0112;
+
+/**
+ * Reads the orientation a camera recorded in a JPEG's EXIF block. Anything that isn't a JPEG,
+ * or has no (readable) orientation, counts as upright.
+ */
+export const readExifOrientation = (buffer: ArrayBuffer): ExifOrientation => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // APP1 segment starting with "Exif\0\0".
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      return readTiffOrientation(view, offset + 10);
+    }
+    // Image data starts at SOS; EXIF always comes before it.
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) return 1;
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+const readTiffOrientation = (view: DataView, tiffStart: number): ExifOrientation => {
+  try {
+    const littleEndian = view.getUint16(tiffStart) === 0x4949;
+    const ifdStart = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+    const entries = view.getUint16(ifdStart, littleEndian);
+    for (let i = 0; i < entries; i++) {
+      const entry = ifdStart + 2 + i * 12;
+      if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG) {
+        const value = view.getUint16(entry + 8, littleEndian);
+        return value >= 1 && value <= 8 ? value as ExifOrientation : 1;
+      }
+    }
+  } catch {
+    // A truncated or malformed block reads past the buffer; treat the photo as upright.
+  }
+  return 1;
+};
+
+/**
+ * Sets up a canvas transform so an image drawn at (0, 0, width, height) comes out upright.
+ * For orientations 5-8 the canvas itself must be `height` wide and `width` tall.
+ */
+export const applyExifOrientation = (ctx: CanvasRenderingContext2D, orientation: ExifOrientation, width: number, height: number) => {
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+  }
+};
@@ -0,0 +1,51 @@
+import type { CSSProperties } from 'react';
+import { BoundingBox } from '../types.ts';
+
+// A point in the same normalized 0-1000 space as BoundingBox.
+export interface NormalizedPoint {
+  x: number;
+  y: number;
+}
+
+export interface Rect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Where an `object-contain` image actually lands inside its element, letterboxing included.
+export const containRect = (
+  containerWidth: number,
+  containerHeight: number,
+  naturalWidth: number,
+  naturalHeight: number
+): Rect => {
+  const scale = Math.min(containerWidth / naturalWidth, containerHeight / naturalHeight);
+  const width = naturalWidth * scale;
+  const height = naturalHeight * scale;
+  return {
+    left: (containerWidth - width) / 2,
+    top: (containerHeight - height) / 2,
+    width,
+    height,
+  };
+};
+
+export const isPointInBox = (point: NormalizedPoint, box: BoundingBox, padding = 0): boolean => {
+  const [ymin, xmin, ymax, xmax] = box;
+  return (
+    point.y >= ymin - padding &&
+    point.y <= ymax + padding &&
+    point.x >= xmin - padding &&
+    point.x <= xmax + padding
+  );
+};
+
+// CSS positioning for an overlay drawn over a box, as percentages of the image frame.
+export const boxToStyle = (box: BoundingBox): CSSProperties => ({
+  top: `${box[0] / 10}%`,
+  left: `${box[1] / 10}%`,
+  width: `${(box[3] - box[1]) / 10}%`,
+  height: `${(box[2] - box[0]) / 10}%`,
+});
@@ -0,0 +1,42 @@
+/**
+ * What the address bar says about the app. Page numbers in paths start at 1; `page` here is the
+ * 0-based index used everywhere else. A book that hasn't been saved yet lives under /create, since
+ * there is nothing to look it up by after a reload.
+ */
+export type Route =
+  | { view: 'create'; page?: number }
+  | { view: 'vault' }
+  | { view: 'book'; bookId: string; page: number };
+
+// Malformed escapes (e.g. a hand-edited `/book/%E0`) make the whole path unreadable, so it means the start page.
+export const parseRoute = (pathname: string): Route => {
+  let parts: string[];
+  try {
+    parts = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch (error) {
+    if (error instanceof URIError) return { view: 'create' };
+    throw error;
+  }
+  const pageOf = (value: string | undefined) => {
+    const n = Number(value);
+    return Number.isInteger(n) && n >= 1 ? n - 1 : 0;
+  };
+
+  if (parts[0] === 'vault') return { view: 'vault' };
+  if (parts[0] === 'book' && parts[1]) {
+    return { view: 'book', bookId: parts[1], page: parts[2] === 'page' ? pageOf(parts[3]) : 0 };
+  }
+  if (parts[0] === 'create' && parts[1] === 'page') return { view: 'create', page: pageOf(parts[2]) };
+  return { view: 'create' };
+};
+
+export const routePath = (route: Route): string => {
+  switch (route.view) {
+    case 'vault':
+      return '/vault';
+    case 'book':
+      return `/book/${encodeURIComponent(route.bookId)}/page/${route.page + 1}`;
+    case 'create':
+      return route.page === undefined ? '/create' : `/create/page/${route.page + 1}`;
+  }
+};
@@ -1,18 +1,34 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin, PreviewServer, ViteDevServer } from 'vite';
 import react from '@vitejs/plugin-react';
+import { API_PREFIX, createProxyHandler, proxyOptionsFromEnv } from './server/proxy.ts';
+
+// Serves the Gemini proxy from the dev and preview servers, so the API key stays on this machine.
+const geminiProxy = (env: Record<string, string>): Plugin => {
+  const handler = createProxyHandler(proxyOptionsFromEnv(env));
+  const mount = (server: ViteDevServer | PreviewServer) => {
+    server.middlewares.use((req, res, next) => {
+      if (!req.url?.startsWith(API_PREFIX)) return next();
+      handler(req, res).catch(next);
+    });
+  };
+  return {
+    name: 'gemini-proxy',
+    configureServer: mount,
+    configurePreviewServer: mount,
+  };
+};
 
 export default defineConfig(({ mode }) => {
-    const env = loadEnv(mode, '.', '');
+    const env = { ...loadEnv(mode, '.', ''), ...process.env } as Record<string, string>;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), geminiProxy(env)],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER)
       },
       resolve: {
         alias: {